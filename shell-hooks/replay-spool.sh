@@ -0,0 +1,75 @@
+#!/bin/bash
+
+# ============================================================
+# Activity Tracker Spool Replay
+# Sends commands spooled while the tracker was unreachable
+# to the batch endpoint. Idempotency keys make re-sends safe.
+# ============================================================
+
+ACTIVITY_TRACKER_URL="${ACTIVITY_TRACKER_URL:-http://localhost:3000/api/command}"
+BATCH_URL="${ACTIVITY_TRACKER_URL%/command}/commands/batch"
+SPOOL="${1:-$HOME/.logs/activity-tracker/spool.jsonl}"
+QUARANTINE="${SPOOL%.jsonl}.invalid.jsonl"
+BATCH_SIZE=500
+
+if [[ ! -s "$SPOOL" ]]; then
+  exit 0
+fi
+
+# Claim the spool atomically so concurrent shells don't send it twice
+SENDING="${SPOOL}.sending.$$"
+mv "$SPOOL" "$SENDING" 2>/dev/null || exit 0
+
+# Set aside lines that aren't one JSON object (raw control characters from older
+# hooks): one bad line would get its whole batch rejected on every attempt
+CHECKED="${SENDING}.checked"
+invalid=0
+: >"$CHECKED"
+while IFS= read -r line || [[ -n "$line" ]]; do
+  [[ -z "$line" ]] && continue
+
+  if [[ "$line" == \{*\} && "$line" != *[[:cntrl:]]* ]]; then
+    printf '%s\n' "$line" >>"$CHECKED"
+  else
+    printf '%s\n' "$line" >>"$QUARANTINE"
+    invalid=$((invalid + 1))
+  fi
+done <"$SENDING"
+mv "$CHECKED" "$SENDING"
+
+if [[ $invalid -gt 0 ]]; then
+  echo "⚠️  Moved $invalid invalid line(s) to $QUARANTINE"
+fi
+
+failed=0
+total=$(wc -l <"$SENDING")
+offset=0
+
+while [[ $offset -lt $total ]]; do
+  lines=$(tail -n +$((offset + 1)) "$SENDING" | head -n $BATCH_SIZE | paste -sd, -)
+
+  if ! curl -X POST "$BATCH_URL" \
+    -H "Content-Type: application/json" \
+    -H "X-Activity-Tracker: replay-spool" \
+    --data "{\"commands\": [$lines]}" \
+    --max-time 10 \
+    --silent \
+    --fail \
+    >/dev/null; then
+    failed=1
+    break
+  fi
+
+  offset=$((offset + BATCH_SIZE))
+done
+
+if [[ $failed -eq 1 ]]; then
+  # Put unsent commands back for the next attempt
+  tail -n +$((offset + 1)) "$SENDING" >>"$SPOOL"
+  echo "❌ Replay failed after $offset of $total commands"
+  rm -f "$SENDING"
+  exit 1
+fi
+
+rm -f "$SENDING"
+echo "✅ Replayed $total spooled commands"
@@ -13,6 +13,53 @@ ACTIVITY_TRACKER_ENABLED="${ACTIVITY_TRACKER_ENABLED:-true}"
 HOOK_LOG_DIR="${HOME}/.logs/activity-tracker"
 mkdir -p "$HOOK_LOG_DIR" 2>/dev/null
 
+# Millisecond timestamps for duration tracking
+zmodload zsh/datetime 2>/dev/null
+
+# Terminal session: one ID per interactive shell (not exported, so nested shells get their own)
+ACTIVITY_TRACKER_SESSION_ID="${ACTIVITY_TRACKER_SESSION_ID:-$(hostname)-$$-$(date +%s)}"
+ACTIVITY_TRACKER_TTY="$(tty -s 2>/dev/null && tty)"
+
+# Commands typed while the tracker is unreachable are spooled here and replayed later
+ACTIVITY_TRACKER_SPOOL="${ACTIVITY_TRACKER_SPOOL:-$HOOK_LOG_DIR/spool.jsonl}"
+ACTIVITY_TRACKER_HOOK_DIR="${${(%):-%x}:A:h}"
+
+# Key of the command currently running (generated here, so the start call needn't be awaited)
+ACTIVITY_TRACKER_CMD_KEY=""
+ACTIVITY_TRACKER_CMD_FIELDS=""
+ACTIVITY_TRACKER_CMD_START=""
+ACTIVITY_TRACKER_START_PID=""
+
+# Current time in milliseconds (EPOCHREALTIME has microseconds)
+activity_tracker_now_ms() {
+    local now="${EPOCHREALTIME/./}"
+    echo "${now[1,-4]}"
+}
+
+# Escape a string for a JSON value: backslash, quote and every control character
+# (a raw \r or escape sequence would make the payload, and the spool line, invalid)
+activity_tracker_json_escape() {
+    local s="$1" out="" c i
+    s="${s//\\/\\\\}"
+    s="${s//\"/\\\"}"
+    s="${s//$'\n'/\\n}"
+    s="${s//$'\r'/\\r}"
+    s="${s//$'\t'/\\t}"
+
+    if [[ "$s" == *[[:cntrl:]]* ]]; then
+        for ((i = 0; i < ${#s}; i++)); do
+            c="${s:$i:1}"
+            if [[ "$c" == [[:cntrl:]] ]]; then
+                printf -v c '\\u%04x' "'$c"
+            fi
+            out+="$c"
+        done
+        s="$out"
+    fi
+
+    printf '%s' "$s"
+}
+
 # Hook function - runs before each command execution
 preexec_activity_tracker() {
     # Skip if disabled
@@ -38,37 +85,101 @@ preexec_activity_tracker() {
     fi
 
     # Escape JSON special characters
-    cmd=$(echo "$cmd" | sed 's/\\/\\\\/g' | sed 's/"/\\"/g' | sed 's/\t/\\t/g')
-    cwd=$(echo "$cwd" | sed 's/\\/\\\\/g' | sed 's/"/\\"/g')
+    cmd=$(activity_tracker_json_escape "$cmd")
+    cwd=$(activity_tracker_json_escape "$cwd")
     
-    # Build JSON payload
-    local json_payload=$(cat <<EOF
-{
-  "cmd": "$cmd",
-  "cwd": "$cwd",
-  "user": "$user",
-  "shell": "$shell_name",
-  "hostname": "$hostname"
-}
-EOF
-)
+    ACTIVITY_TRACKER_CMD_START="$(activity_tracker_now_ms)"
+    ACTIVITY_TRACKER_CMD_KEY="$ACTIVITY_TRACKER_SESSION_ID-$ACTIVITY_TRACKER_CMD_START"
+    ACTIVITY_TRACKER_CMD_FIELDS="\"cmd\": \"$cmd\", \"cwd\": \"$cwd\", \"user\": \"$user\", \"shell\": \"$shell_name\", \"hostname\": \"$hostname\", \"session_id\": \"$ACTIVITY_TRACKER_SESSION_ID\", \"executed_at\": $ACTIVITY_TRACKER_CMD_START, \"idempotency_key\": \"$ACTIVITY_TRACKER_CMD_KEY\""
 
-    # Send to server in background (non-blocking)
+    local json_payload="{$ACTIVITY_TRACKER_CMD_FIELDS, \"shell_pid\": $$, \"tty\": \"$ACTIVITY_TRACKER_TTY\"}"
+    local unreachable="$HOOK_LOG_DIR/.unreachable-${ACTIVITY_TRACKER_CMD_KEY//\//_}"
+
+    # Start call runs in the background; if the tracker can't be reached, a marker
+    # tells precmd to spool the command with its outcome instead of finishing it
     {
-        curl -X POST "$ACTIVITY_TRACKER_URL" \
+        local http_status
+        http_status=$(curl -X POST "$ACTIVITY_TRACKER_URL" \
             -H "Content-Type: application/json" \
             -H "X-Activity-Tracker: zsh-hook" \
             --data "$json_payload" \
             --max-time 2 \
             --silent \
             --show-error \
-            >> "$HOOK_LOG_DIR/zsh-hook.log" 2>&1
+            --output /dev/null \
+            --write-out '%{http_code}' \
+            2>> "$HOOK_LOG_DIR/zsh-hook.log")
+
+        if [[ $? -ne 0 || -z "$http_status" || "$http_status" == "000" ]]; then
+            : > "$unreachable"
+        elif [[ -s "$ACTIVITY_TRACKER_SPOOL" ]]; then
+            # Tracker is back: replay anything spooled while it was down
+            ACTIVITY_TRACKER_URL="$ACTIVITY_TRACKER_URL" "$ACTIVITY_TRACKER_HOOK_DIR/replay-spool.sh" "$ACTIVITY_TRACKER_SPOOL" >/dev/null 2>&1
+        fi
+    } &!
+    ACTIVITY_TRACKER_START_PID=$!
+}
+
+# Hook function - runs after each command, before the prompt
+precmd_activity_tracker() {
+    local exit_code=$?
+
+    # Nothing to finish (first prompt or disabled)
+    if [[ -z "$ACTIVITY_TRACKER_CMD_KEY" ]]; then
+        return
+    fi
+
+    local key="$ACTIVITY_TRACKER_CMD_KEY"
+    local fields="$ACTIVITY_TRACKER_CMD_FIELDS"
+    local start_pid="$ACTIVITY_TRACKER_START_PID"
+    local duration_ms=$(( $(activity_tracker_now_ms) - ACTIVITY_TRACKER_CMD_START ))
+    local unreachable="$HOOK_LOG_DIR/.unreachable-${key//\//_}"
+    ACTIVITY_TRACKER_CMD_KEY=""
+    ACTIVITY_TRACKER_CMD_FIELDS=""
+
+    # Send to server in background (non-blocking), once the start call is done
+    {
+        while kill -0 "$start_pid" 2>/dev/null; do
+            sleep 0.1
+        done
+
+        if [[ -e "$unreachable" ]]; then
+            # Start call failed: spool the command for batch replay
+            rm -f "$unreachable"
+            echo "{$fields, \"exit_code\": $exit_code, \"duration_ms\": $duration_ms}" >> "$ACTIVITY_TRACKER_SPOOL"
+        else
+            # Unknown keys (commands refused by a rule) are simply rejected
+            curl -X POST "$ACTIVITY_TRACKER_URL/finish" \
+                -H "Content-Type: application/json" \
+                -H "X-Activity-Tracker: zsh-hook" \
+                --data "{\"idempotency_key\": \"$key\", \"exit_code\": $exit_code, \"duration_ms\": $duration_ms}" \
+                --max-time 2 \
+                --silent \
+                --show-error \
+                >> "$HOOK_LOG_DIR/zsh-hook.log" 2>&1
+        fi
     } &!
 }
 
-# Register the hook
+# Hook function - runs when the shell exits
+zshexit_activity_tracker() {
+    if [[ "$ACTIVITY_TRACKER_ENABLED" != "true" ]]; then
+        return
+    fi
+
+    curl -X POST "${ACTIVITY_TRACKER_URL%/command}/session/$ACTIVITY_TRACKER_SESSION_ID/end" \
+        -H "X-Activity-Tracker: zsh-hook" \
+        --max-time 1 \
+        --silent \
+        --show-error \
+        >> "$HOOK_LOG_DIR/zsh-hook.log" 2>&1
+}
+
+# Register the hooks
 autoload -Uz add-zsh-hook
 add-zsh-hook preexec preexec_activity_tracker
+add-zsh-hook precmd precmd_activity_tracker
+add-zsh-hook zshexit zshexit_activity_tracker
 
 # Debug info (comment out in production)
 # echo "✅ Activity Tracker ZSH Hook loaded (URL: $ACTIVITY_TRACKER_URL)"
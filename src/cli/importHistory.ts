@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import { hostname } from 'os';
+import { loadConfig } from '../utils/config';
+import { dbClient } from '../db/client';
+import { historyImporter, HistoryFormat } from '../services/historyImporter';
+
+/**
+ * Import shell history files into the tracker database.
+ *
+ * Usage: bun run import:history <file> [--format bash|zsh] [--user NAME] [--hostname HOST]
+ */
+function parseArgs(argv: string[]) {
+  const options: { file?: string; format?: HistoryFormat; user?: string; hostname?: string } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') options.format = argv[++i] as HistoryFormat;
+    else if (arg === '--user') options.user = argv[++i];
+    else if (arg === '--hostname') options.hostname = argv[++i];
+    else options.file = arg;
+  }
+
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+if (!options.file) {
+  console.error('Usage: bun run import:history <file> [--format bash|zsh] [--user NAME] [--hostname HOST]');
+  process.exit(1);
+}
+
+loadConfig();
+dbClient.init();
+
+const raw = readFileSync(options.file);
+const format = options.format || historyImporter.detectFormat(raw.toString('utf-8'));
+
+// zsh escapes some bytes in its history file; undo that before parsing
+const content = format === 'zsh' ? historyImporter.unmetafy(raw) : raw.toString('utf-8');
+
+const result = historyImporter.import(content, {
+  format,
+  user: options.user,
+  hostname: options.hostname || hostname()
+});
+
+console.log(`📥 Imported ${options.file} (${result.format})`);
+console.log(`   Parsed: ${result.parsed}`);
+console.log(`   Inserted: ${result.inserted}`);
+console.log(`   Duplicates: ${result.duplicates}`);
+console.log(`   Skipped (no timestamp): ${result.skipped_untimed}`);
+console.log(`   Rejected: ${result.rejected}`);
+
+dbClient.close();
@@ -1,10 +1,49 @@
 import { Database } from 'bun:sqlite';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
-import { SCHEMA, Command, SystemStat, KilledProcess, Event } from './schema';
+import { SCHEMA, COLUMN_MIGRATIONS, MIGRATION_INDEXES, Command, Session, SystemStat, CpuStat, DiskStat, DiskIOStat, NetStat, MetricRollup, ProcessSample, KilledProcess, Event, DetectorState, DetectionRecord } from './schema';
 import { logger } from '../utils/logger';
 import { getConfig } from '../utils/config';
 
+export interface CommandFilters {
+  since?: number;
+  until?: number;
+  cwdPrefix?: string;
+  user?: string;
+  shell?: string;
+  hostname?: string;
+  exit?: 'success' | 'failure' | number;
+  minDurationMs?: number;
+}
+
+export interface CommandSearchFilters extends CommandFilters {
+  limit?: number;
+  offset?: number;
+}
+
+export type CommandSortField = 'created_at' | 'duration_ms' | 'id';
+
+export interface CommandListOptions extends CommandFilters {
+  before?: number; // Cursor: rows preceding this command ID in the sort order
+  after?: number;  // Cursor: rows following this command ID in the sort order
+  sort?: CommandSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface CommandPage {
+  commands: Command[];
+  next_cursor: number | null;
+  prev_cursor: number | null;
+  has_more: boolean;
+}
+
+export interface CommandSearchResult extends Command {
+  rank: number;
+  cmd_snippet: string;
+  cwd_highlight: string;
+}
+
 class DatabaseClient {
   private db: Database | null = null;
   private dbPath: string;
@@ -15,9 +54,12 @@ class DatabaseClient {
   }
 
   /**
-   * Initialize database connection and create tables
+   * Initialize database connection and create tables. `path` overrides
+   * database.path (tests use a throwaway file).
    */
-  init(): void {
+  init(path: string = this.dbPath): void {
+    this.dbPath = path;
+
     try {
       // Create data directory if it doesn't exist
       const dbDir = dirname(this.dbPath);
@@ -54,9 +96,21 @@ class DatabaseClient {
     try {
       // Execute all schema statements
       this.db.run(SCHEMA.commands);
+      this.createSearchIndex();
+      this.db.run(SCHEMA.sessions);
       this.db.run(SCHEMA.system_stats);
+      this.db.run(SCHEMA.cpu_stats);
+      this.db.run(SCHEMA.disk_stats);
+      this.db.run(SCHEMA.disk_io_stats);
+      this.db.run(SCHEMA.net_stats);
+      this.db.run(SCHEMA.metric_rollups);
+      this.db.run(SCHEMA.process_samples);
       this.db.run(SCHEMA.killed_processes);
       this.db.run(SCHEMA.events);
+      this.db.run(SCHEMA.detector_state);
+      this.db.run(SCHEMA.detection_events);
+
+      this.runMigrations();
 
       logger.info('All tables created successfully');
     } catch (error) {
@@ -65,6 +119,48 @@ class DatabaseClient {
     }
   }
 
+  /**
+   * Create the commands full-text index, backfilling it on first creation
+   */
+  private createSearchIndex(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const existing = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'commands_fts'")
+      .get();
+
+    this.db.run(SCHEMA.commands_fts);
+
+    if (!existing) {
+      this.db.run("INSERT INTO commands_fts(commands_fts) VALUES ('rebuild')");
+      logger.info('Built full-text index for existing commands');
+    }
+  }
+
+  /**
+   * Add columns introduced after a table was first created
+   */
+  private runMigrations(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const migration of COLUMN_MIGRATIONS) {
+      const columns = this.db
+        .prepare(`PRAGMA table_info(${migration.table})`)
+        .all() as { name: string }[];
+
+      if (!columns.some(c => c.name === migration.column)) {
+        this.db.run(
+          `ALTER TABLE ${migration.table} ADD COLUMN ${migration.column} ${migration.definition}`
+        );
+        logger.info(`Migrated ${migration.table}: added column ${migration.column}`);
+      }
+    }
+
+    for (const index of MIGRATION_INDEXES) {
+      this.db.run(index);
+    }
+  }
+
   /**
    * Get database instance
    */
@@ -81,8 +177,15 @@ class DatabaseClient {
   insertCommand(cmd: Command): number {
     const db = this.getDb();
     const stmt = db.prepare(`
-      INSERT INTO commands (cmd, cwd, user, exit_code, duration_ms)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO commands (
+        cmd, cwd, user, exit_code, duration_ms, status, ended_at, redacted_rules,
+        session_id, shell, hostname, project, project_root, repo_root, git_branch,
+        idempotency_key, source, base_cmd, subcommand, programs, created_at
+      )
+      VALUES (
+        ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+        ?, ?, ?, ?, ?, COALESCE(?, strftime('%s', 'now') * 1000)
+      )
     `);
 
     const result = stmt.run(
@@ -90,20 +193,298 @@ class DatabaseClient {
       cmd.cwd,
       cmd.user,
       cmd.exit_code ?? null,
-      cmd.duration_ms ?? null
+      cmd.duration_ms ?? null,
+      cmd.status ?? 'running',
+      cmd.ended_at ?? null,
+      cmd.redacted_rules ?? null,
+      cmd.session_id ?? null,
+      cmd.shell ?? null,
+      cmd.hostname ?? null,
+      cmd.project ?? null,
+      cmd.project_root ?? null,
+      cmd.repo_root ?? null,
+      cmd.git_branch ?? null,
+      cmd.idempotency_key ?? null,
+      cmd.source ?? null,
+      cmd.base_cmd ?? null,
+      cmd.subcommand ?? null,
+      cmd.programs ?? null,
+      cmd.created_at ?? null
     );
 
     return result.lastInsertRowid as number;
   }
 
+  /**
+   * Get a single command by ID
+   */
+  getCommand(id: number): Command | null {
+    const db = this.getDb();
+    const stmt = db.prepare('SELECT * FROM commands WHERE id = ?');
+    return (stmt.get(id) as Command | null) ?? null;
+  }
+
+  /**
+   * Find a command previously stored under a client idempotency key
+   */
+  getCommandByIdempotencyKey(key: string): Command | null {
+    const db = this.getDb();
+    const stmt = db.prepare('SELECT * FROM commands WHERE idempotency_key = ?');
+    return (stmt.get(key) as Command | null) ?? null;
+  }
+
+  /**
+   * Check whether a user already has a command logged near a point in time
+   */
+  hasCommandNear(user: string, cmd: string, timestamp: number, toleranceMs: number): boolean {
+    const db = this.getDb();
+    const row = db.prepare(`
+      SELECT 1 FROM commands
+      WHERE user = ? AND cmd = ? AND created_at BETWEEN ? AND ?
+      LIMIT 1
+    `).get(user, cmd, timestamp - toleranceMs, timestamp + toleranceMs);
+
+    return row !== null;
+  }
+
+  /**
+   * Get a batch of commands ordered by ID (for maintenance scans)
+   */
+  getCommandsAfter(afterId: number, limit: number = 1000): Command[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM commands
+      WHERE id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `);
+
+    return stmt.all(afterId, limit) as Command[];
+  }
+
+  /**
+   * Commands that have not been through the shell parser yet
+   */
+  getUnparsedCommands(afterId: number, limit: number = 1000): Command[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM commands
+      WHERE programs IS NULL AND id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `);
+
+    return stmt.all(afterId, limit) as Command[];
+  }
+
+  /**
+   * Store the normalized program columns for parsed commands
+   */
+  updateCommandPrograms(updates: { id: number; base_cmd: string | null; subcommand: string | null; programs: string }[]): void {
+    const db = this.getDb();
+    const stmt = db.prepare('UPDATE commands SET base_cmd = ?, subcommand = ?, programs = ? WHERE id = ?');
+
+    db.transaction(() => {
+      for (const update of updates) {
+        stmt.run(update.base_cmd, update.subcommand, update.programs, update.id);
+      }
+    })();
+  }
+
+  /**
+   * Replace a stored command line with its redacted form
+   */
+  updateCommandRedaction(updates: { id: number; cmd: string; redacted_rules: string }[]): void {
+    const db = this.getDb();
+    const stmt = db.prepare('UPDATE commands SET cmd = ?, redacted_rules = ? WHERE id = ?');
+
+    db.transaction(() => {
+      for (const update of updates) {
+        stmt.run(update.cmd, update.redacted_rules, update.id);
+      }
+    })();
+  }
+
+  /**
+   * Record the outcome of a started command.
+   * Late finishes for abandoned commands are still accepted.
+   */
+  finishCommand(id: number, exitCode: number, durationMs: number, endedAt: number): boolean {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      UPDATE commands
+      SET exit_code = ?, duration_ms = ?, ended_at = ?, status = 'finished'
+      WHERE id = ? AND status IN ('running', 'abandoned')
+    `);
+
+    const result = stmt.run(exitCode, durationMs, endedAt, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark commands that have been running longer than the timeout as abandoned
+   */
+  abandonStaleCommands(startedBefore: number): number {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      UPDATE commands
+      SET status = 'abandoned'
+      WHERE status = 'running' AND created_at < ?
+    `);
+
+    const result = stmt.run(startedBefore);
+    return result.changes;
+  }
+
+  /**
+   * Insert a terminal session
+   */
+  insertSession(session: Session): void {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      INSERT INTO sessions (id, user, hostname, shell, tty, shell_pid, started_at, last_seen_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      session.id,
+      session.user,
+      session.hostname ?? null,
+      session.shell ?? null,
+      session.tty ?? null,
+      session.shell_pid ?? null,
+      session.started_at,
+      session.last_seen_at
+    );
+  }
+
+  /**
+   * Get a session by ID
+   */
+  getSession(id: string): Session | null {
+    const db = this.getDb();
+    const stmt = db.prepare('SELECT * FROM sessions WHERE id = ?');
+    return (stmt.get(id) as Session | null) ?? null;
+  }
+
+  /**
+   * Find the open session for a shell process on a host
+   */
+  findActiveSession(hostname: string, shellPid: number, tty: string | null): Session | null {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM sessions
+      WHERE hostname = ? AND shell_pid = ? AND IFNULL(tty, '') = ? AND ended_at IS NULL
+      ORDER BY started_at DESC
+      LIMIT 1
+    `);
+
+    return (stmt.get(hostname, shellPid, tty ?? '') as Session | null) ?? null;
+  }
+
+  /**
+   * Record activity on a session (reopens it if it was closed as idle)
+   */
+  touchSession(id: string, seenAt: number): void {
+    const db = this.getDb();
+    db.prepare(`
+      UPDATE sessions
+      SET last_seen_at = MAX(last_seen_at, ?),
+          command_count = command_count + 1,
+          ended_at = CASE WHEN end_reason = 'idle' THEN NULL ELSE ended_at END,
+          end_reason = CASE WHEN end_reason = 'idle' THEN NULL ELSE end_reason END
+      WHERE id = ?
+    `).run(seenAt, id);
+  }
+
+  /**
+   * Close a session
+   */
+  endSession(id: string, endedAt: number, reason: 'exit' | 'idle'): boolean {
+    const db = this.getDb();
+    const result = db.prepare(`
+      UPDATE sessions SET ended_at = ?, end_reason = ?
+      WHERE id = ? AND ended_at IS NULL
+    `).run(endedAt, reason, id);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Close sessions with no activity since the cutoff
+   */
+  endIdleSessions(lastSeenBefore: number): number {
+    const db = this.getDb();
+    const result = db.prepare(`
+      UPDATE sessions SET ended_at = last_seen_at, end_reason = 'idle'
+      WHERE ended_at IS NULL AND last_seen_at < ?
+    `).run(lastSeenBefore);
+
+    return result.changes;
+  }
+
+  /**
+   * List sessions, newest first
+   */
+  getSessions(filters: { active?: boolean; hostname?: string; user?: string; since?: number; limit?: number } = {}): Session[] {
+    const db = this.getDb();
+
+    let query = 'SELECT * FROM sessions WHERE 1=1';
+    const params: any[] = [];
+
+    if (filters.active !== undefined) {
+      query += filters.active ? ' AND ended_at IS NULL' : ' AND ended_at IS NOT NULL';
+    }
+
+    if (filters.hostname) {
+      query += ' AND hostname = ?';
+      params.push(filters.hostname);
+    }
+
+    if (filters.user) {
+      query += ' AND user = ?';
+      params.push(filters.user);
+    }
+
+    if (filters.since !== undefined) {
+      query += ' AND last_seen_at >= ?';
+      params.push(filters.since);
+    }
+
+    query += ' ORDER BY started_at DESC LIMIT ?';
+    params.push(filters.limit ?? 50);
+
+    return db.prepare(query).all(...params) as Session[];
+  }
+
+  /**
+   * Get the commands of one session in execution order
+   */
+  getSessionCommands(sessionId: string, limit: number = 1000): Command[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM commands
+      WHERE session_id = ?
+      ORDER BY created_at ASC, id ASC
+      LIMIT ?
+    `);
+
+    return stmt.all(sessionId, limit) as Command[];
+  }
+
   /**
    * Insert system stats record
    */
   insertSystemStat(stat: SystemStat): number {
     const db = this.getDb();
     const stmt = db.prepare(`
-      INSERT INTO system_stats (ram_total_mb, ram_used_mb, ram_available_mb, ram_percent, swap_total_mb, swap_used_mb)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO system_stats (
+        ram_total_mb, ram_used_mb, ram_available_mb, ram_percent, ram_free_mb, buffers_mb, cached_mb,
+        swap_total_mb, swap_used_mb, swap_in_per_sec, swap_out_per_sec, load1, load5, load15, uptime_seconds,
+        psi_some_avg10, psi_some_avg60, psi_some_avg300, psi_some_total,
+        psi_full_avg10, psi_full_avg60, psi_full_avg300, psi_full_total, memory_view, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -111,13 +492,306 @@ class DatabaseClient {
       stat.ram_used_mb,
       stat.ram_available_mb,
       stat.ram_percent,
+      stat.ram_free_mb ?? null,
+      stat.buffers_mb ?? null,
+      stat.cached_mb ?? null,
       stat.swap_total_mb ?? null,
-      stat.swap_used_mb ?? null
+      stat.swap_used_mb ?? null,
+      stat.swap_in_per_sec ?? null,
+      stat.swap_out_per_sec ?? null,
+      stat.load1 ?? null,
+      stat.load5 ?? null,
+      stat.load15 ?? null,
+      stat.uptime_seconds ?? null,
+      stat.psi_some_avg10 ?? null,
+      stat.psi_some_avg60 ?? null,
+      stat.psi_some_avg300 ?? null,
+      stat.psi_some_total ?? null,
+      stat.psi_full_avg10 ?? null,
+      stat.psi_full_avg60 ?? null,
+      stat.psi_full_avg300 ?? null,
+      stat.psi_full_total ?? null,
+      stat.memory_view ?? null,
+      stat.created_at ?? Date.now()
     );
 
     return result.lastInsertRowid as number;
   }
 
+  /**
+   * Insert CPU utilization record
+   */
+  insertCpuStat(stat: CpuStat): number {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      INSERT INTO cpu_stats (
+        percent, user_percent, system_percent, iowait_percent, steal_percent, idle_percent,
+        core_count, cores, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, strftime('%s', 'now') * 1000))
+    `);
+
+    const result = stmt.run(
+      stat.percent,
+      stat.user_percent,
+      stat.system_percent,
+      stat.iowait_percent,
+      stat.steal_percent,
+      stat.idle_percent,
+      stat.core_count,
+      stat.cores ?? null,
+      stat.created_at ?? null
+    );
+
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Insert one collection's filesystem usage and I/O rates
+   */
+  insertDiskStats(filesystems: DiskStat[], io: DiskIOStat[], timestamp: number): void {
+    const db = this.getDb();
+    const fsStmt = db.prepare(`
+      INSERT INTO disk_stats (
+        mount, device, fs_type, total_mb, used_mb, available_mb, percent,
+        inodes_total, inodes_used, inodes_percent, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const ioStmt = db.prepare(`
+      INSERT INTO disk_io_stats (
+        device, read_bytes_per_sec, write_bytes_per_sec, reads_per_sec, writes_per_sec, util_percent, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      for (const fs of filesystems) {
+        fsStmt.run(
+          fs.mount, fs.device, fs.fs_type, fs.total_mb, fs.used_mb, fs.available_mb, fs.percent,
+          fs.inodes_total ?? null, fs.inodes_used ?? null, fs.inodes_percent ?? null, timestamp
+        );
+      }
+
+      for (const stat of io) {
+        ioStmt.run(
+          stat.device, stat.read_bytes_per_sec, stat.write_bytes_per_sec,
+          stat.reads_per_sec, stat.writes_per_sec, stat.util_percent, timestamp
+        );
+      }
+    })();
+  }
+
+  /**
+   * Insert one interval's network throughput rows
+   */
+  insertNetStats(stats: NetStat[]): void {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      INSERT INTO net_stats (
+        interface, rx_bytes_per_sec, tx_bytes_per_sec, rx_packets_per_sec, tx_packets_per_sec,
+        rx_errors, tx_errors, rx_dropped, tx_dropped, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      for (const stat of stats) {
+        stmt.run(
+          stat.interface, stat.rx_bytes_per_sec, stat.tx_bytes_per_sec,
+          stat.rx_packets_per_sec, stat.tx_packets_per_sec,
+          stat.rx_errors, stat.tx_errors, stat.rx_dropped, stat.tx_dropped, stat.created_at
+        );
+      }
+    })();
+  }
+
+  /**
+   * Delete network rows older than a cutoff
+   */
+  pruneNetStats(before: number): number {
+    const db = this.getDb();
+    const result = db.prepare('DELETE FROM net_stats WHERE created_at < ?').run(before);
+    return result.changes;
+  }
+
+  /**
+   * Aggregate raw rows of one table column into rollup buckets.
+   * `table` and `column` come from the fixed rollup source list, never from input.
+   */
+  rollupRaw(
+    table: string,
+    column: string,
+    metric: string,
+    resolution: string,
+    bucketMs: number,
+    from: number,
+    to: number
+  ): number {
+    const db = this.getDb();
+    const result = db.prepare(`
+      INSERT OR REPLACE INTO metric_rollups (resolution, metric, bucket_start, avg, min, max, samples)
+      SELECT ?, ?, CAST(created_at / ? AS INTEGER) * ? AS bucket, AVG(${column}), MIN(${column}), MAX(${column}), COUNT(*)
+      FROM ${table}
+      WHERE created_at >= ? AND created_at < ? AND ${column} IS NOT NULL
+      GROUP BY bucket
+    `).run(resolution, metric, bucketMs, bucketMs, from, to);
+
+    return result.changes;
+  }
+
+  /**
+   * Build coarser rollup buckets from a finer resolution (sample-weighted average)
+   */
+  rollupFrom(source: string, resolution: string, bucketMs: number, from: number, to: number): number {
+    const db = this.getDb();
+    const result = db.prepare(`
+      INSERT OR REPLACE INTO metric_rollups (resolution, metric, bucket_start, avg, min, max, samples)
+      SELECT ?, metric, CAST(bucket_start / ? AS INTEGER) * ? AS bucket,
+        SUM(avg * samples) / SUM(samples), MIN(min), MAX(max), SUM(samples)
+      FROM metric_rollups
+      WHERE resolution = ? AND bucket_start >= ? AND bucket_start < ?
+      GROUP BY metric, bucket
+    `).run(resolution, bucketMs, bucketMs, source, from, to);
+
+    return result.changes;
+  }
+
+  /**
+   * Start of the newest bucket built for a resolution
+   */
+  getLatestRollupBucket(resolution: string): number | null {
+    const db = this.getDb();
+    const row = db.prepare(
+      'SELECT MAX(bucket_start) as bucket_start FROM metric_rollups WHERE resolution = ?'
+    ).get(resolution) as { bucket_start: number | null };
+
+    return row.bucket_start;
+  }
+
+  /**
+   * Rollup buckets for some metrics within a time range, oldest first
+   */
+  getRollups(resolution: string, metrics: string[], since: number, until: number): MetricRollup[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM metric_rollups
+      WHERE resolution = ? AND bucket_start >= ? AND bucket_start <= ?
+        AND metric IN (${metrics.map(() => '?').join(', ')})
+      ORDER BY bucket_start ASC
+    `);
+
+    return stmt.all(resolution, since, until, ...metrics) as MetricRollup[];
+  }
+
+  /**
+   * Re-bucket rollups of one resolution into wider buckets (sample-weighted average)
+   */
+  getRollupBuckets(resolution: string, metrics: string[], since: number, until: number, bucketMs: number): MetricRollup[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT resolution, metric, CAST(bucket_start / ? AS INTEGER) * ? AS bucket_start,
+        SUM(avg * samples) / SUM(samples) as avg, MIN(min) as min, MAX(max) as max, SUM(samples) as samples
+      FROM metric_rollups
+      WHERE resolution = ? AND bucket_start >= ? AND bucket_start <= ?
+        AND metric IN (${metrics.map(() => '?').join(', ')})
+      GROUP BY metric, CAST(bucket_start / ? AS INTEGER)
+      ORDER BY bucket_start ASC
+    `);
+
+    return stmt.all(bucketMs, bucketMs, resolution, since, until, ...metrics, bucketMs) as MetricRollup[];
+  }
+
+  /**
+   * Bucket one raw table column on the fly, in the shape of a rollup
+   */
+  getRawBuckets(table: string, column: string, metric: string, since: number, until: number, bucketMs: number): MetricRollup[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT 'raw' as resolution, ? as metric, CAST(created_at / ? AS INTEGER) * ? AS bucket_start,
+        AVG(${column}) as avg, MIN(${column}) as min, MAX(${column}) as max, COUNT(*) as samples
+      FROM ${table}
+      WHERE created_at >= ? AND created_at <= ? AND ${column} IS NOT NULL
+      GROUP BY CAST(created_at / ? AS INTEGER)
+      ORDER BY bucket_start ASC
+    `);
+
+    return stmt.all(metric, bucketMs, bucketMs, since, until, bucketMs) as MetricRollup[];
+  }
+
+  /**
+   * Aggregate of one metric's rollup buckets over a time range
+   */
+  getRollupSummary(resolution: string, metric: string, since: number, until: number) {
+    const db = this.getDb();
+    return db.prepare(`
+      SELECT
+        SUM(avg * samples) / SUM(samples) as avg,
+        MIN(min) as min,
+        MAX(max) as max,
+        COALESCE(SUM(samples), 0) as samples
+      FROM metric_rollups
+      WHERE resolution = ? AND metric = ? AND bucket_start >= ? AND bucket_start <= ?
+    `).get(resolution, metric, since, until) as { avg: number | null; min: number | null; max: number | null; samples: number };
+  }
+
+  /**
+   * Aggregate of one raw table column over a time range
+   */
+  getRawSummary(table: string, column: string, since: number, until: number) {
+    const db = this.getDb();
+    return db.prepare(`
+      SELECT AVG(${column}) as avg, MIN(${column}) as min, MAX(${column}) as max, COUNT(${column}) as samples
+      FROM ${table}
+      WHERE created_at >= ? AND created_at <= ?
+    `).get(since, until) as { avg: number | null; min: number | null; max: number | null; samples: number };
+  }
+
+  /**
+   * Delete rollup buckets of one resolution older than a timestamp
+   */
+  pruneRollups(resolution: string, before: number): number {
+    const db = this.getDb();
+    const result = db.prepare('DELETE FROM metric_rollups WHERE resolution = ? AND bucket_start < ?').run(resolution, before);
+    return result.changes;
+  }
+
+  /**
+   * Delete raw per-tick system and CPU stats older than a timestamp
+   */
+  pruneRawStats(before: number): number {
+    const db = this.getDb();
+    const stats = db.prepare('DELETE FROM system_stats WHERE created_at < ?').run(before);
+    const cpu = db.prepare('DELETE FROM cpu_stats WHERE created_at < ?').run(before);
+    return stats.changes + cpu.changes;
+  }
+
+  /**
+   * Insert one tick's worth of process samples
+   */
+  insertProcessSamples(samples: ProcessSample[]): void {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      INSERT INTO process_samples (pid, name, rss_kb, cpu_percent, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      for (const sample of samples) {
+        stmt.run(sample.pid, sample.name, sample.rss_kb, sample.cpu_percent, sample.created_at);
+      }
+    })();
+  }
+
+  /**
+   * Delete process samples older than a timestamp
+   */
+  pruneProcessSamples(before: number): number {
+    const db = this.getDb();
+    const result = db.prepare('DELETE FROM process_samples WHERE created_at < ?').run(before);
+    return result.changes;
+  }
+
   /**
    * Insert killed process record
    */
@@ -174,6 +848,155 @@ class DatabaseClient {
     return stmt.all(limit) as Command[];
   }
 
+  /**
+   * Full-text search over commands (FTS5 query syntax: "phrases", prefix*, NOT, OR)
+   * Results are ordered by relevance (bm25) with highlighted snippets.
+   */
+  searchCommands(query: string, filters: CommandSearchFilters = {}): CommandSearchResult[] {
+    const db = this.getDb();
+
+    let sql = `
+      SELECT
+        c.*,
+        bm25(commands_fts) as rank,
+        snippet(commands_fts, 0, '<mark>', '</mark>', '…', 24) as cmd_snippet,
+        highlight(commands_fts, 1, '<mark>', '</mark>') as cwd_highlight
+      FROM commands_fts
+      JOIN commands c ON c.id = commands_fts.rowid
+      WHERE commands_fts MATCH ?
+    `;
+    const params: any[] = [query];
+
+    const where = this.buildCommandFilters(filters, 'c');
+    sql += where.sql;
+    params.push(...where.params);
+
+    sql += ' ORDER BY rank, c.created_at DESC LIMIT ? OFFSET ?';
+    params.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    return db.prepare(sql).all(...params) as CommandSearchResult[];
+  }
+
+  /**
+   * List commands with filters, sorting and keyset (cursor) pagination.
+   * Cursors are command IDs; the cursor row's sort value is looked up so
+   * paging stays stable even when created_at is not in ID order.
+   */
+  listCommands(options: CommandListOptions = {}): CommandPage {
+    const db = this.getDb();
+    const sort: CommandSortField = options.sort ?? 'created_at';
+    const order = options.order ?? 'desc';
+    const limit = options.limit ?? 50;
+
+    // Nulls sort as -1 so commands without a duration still page correctly
+    const sortExpr = sort === 'duration_ms' ? 'COALESCE(c.duration_ms, -1)' : `c.${sort}`;
+
+    let sql = 'SELECT c.* FROM commands c WHERE 1=1';
+    const params: any[] = [];
+
+    const where = this.buildCommandFilters(options, 'c');
+    sql += where.sql;
+    params.push(...where.params);
+
+    // Paging backwards runs the query in reverse order and flips the result
+    const backwards = options.before !== undefined && options.after === undefined;
+    const cursorId = backwards ? options.before : options.after;
+
+    if (cursorId !== undefined) {
+      const cursor = db
+        .prepare(`SELECT ${sortExpr} as sort_value FROM commands c WHERE c.id = ?`)
+        .get(cursorId) as { sort_value: number } | null;
+
+      if (cursor) {
+        const forward = (order === 'desc') !== backwards ? '<' : '>';
+        sql += ` AND (${sortExpr}, c.id) ${forward} (?, ?)`;
+        params.push(cursor.sort_value, cursorId);
+      }
+    }
+
+    const direction = (order === 'desc') !== backwards ? 'DESC' : 'ASC';
+    sql += ` ORDER BY ${sortExpr} ${direction}, c.id ${direction} LIMIT ?`;
+    params.push(limit + 1);
+
+    const rows = db.prepare(sql).all(...params) as Command[];
+    // has_more refers to the direction being paged
+    const has_more = rows.length > limit;
+    const commands = rows.slice(0, limit);
+
+    if (backwards) {
+      commands.reverse();
+    }
+
+    return {
+      commands,
+      next_cursor: commands.length > 0 && (has_more || backwards) ? commands[commands.length - 1].id! : null,
+      prev_cursor: commands.length > 0 && cursorId !== undefined && (!backwards || has_more) ? commands[0].id! : null,
+      has_more
+    };
+  }
+
+  /**
+   * Build WHERE clauses shared by command listing and search
+   */
+  private buildCommandFilters(filters: CommandFilters, alias: string): { sql: string; params: any[] } {
+    let sql = '';
+    const params: any[] = [];
+
+    if (filters.since !== undefined) {
+      sql += ` AND ${alias}.created_at >= ?`;
+      params.push(filters.since);
+    }
+
+    if (filters.until !== undefined) {
+      sql += ` AND ${alias}.created_at <= ?`;
+      params.push(filters.until);
+    }
+
+    if (filters.cwdPrefix) {
+      const prefix = filters.cwdPrefix.replace(/\/+$/, '');
+      sql += ` AND (${alias}.cwd = ? OR ${alias}.cwd LIKE ? ESCAPE '\\')`;
+      params.push(prefix, this.escapeLike(prefix) + '/%');
+    }
+
+    if (filters.user) {
+      sql += ` AND ${alias}.user = ?`;
+      params.push(filters.user);
+    }
+
+    if (filters.shell) {
+      sql += ` AND ${alias}.shell = ?`;
+      params.push(filters.shell);
+    }
+
+    if (filters.hostname) {
+      sql += ` AND ${alias}.hostname = ?`;
+      params.push(filters.hostname);
+    }
+
+    if (filters.exit === 'success') {
+      sql += ` AND ${alias}.exit_code = 0`;
+    } else if (filters.exit === 'failure') {
+      sql += ` AND ${alias}.exit_code IS NOT NULL AND ${alias}.exit_code != 0`;
+    } else if (typeof filters.exit === 'number') {
+      sql += ` AND ${alias}.exit_code = ?`;
+      params.push(filters.exit);
+    }
+
+    if (filters.minDurationMs !== undefined) {
+      sql += ` AND ${alias}.duration_ms >= ?`;
+      params.push(filters.minDurationMs);
+    }
+
+    return { sql, params };
+  }
+
+  /**
+   * Escape LIKE wildcards so a path can be used as a literal prefix
+   */
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, c => '\\' + c);
+  }
+
   /**
    * Get latest system stats
    */
@@ -188,6 +1011,141 @@ class DatabaseClient {
     return stmt.all(limit) as SystemStat[];
   }
 
+  /**
+   * CPU utilization records within a time range, oldest first
+   */
+  getCpuStats(since: number, until: number, limit: number = 1000): CpuStat[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM cpu_stats
+        WHERE created_at >= ? AND created_at <= ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC
+    `);
+
+    return stmt.all(since, until, limit) as CpuStat[];
+  }
+
+  /**
+   * Filesystem usage records within a time range, oldest first
+   */
+  getDiskStats(since: number, until: number, mount?: string, limit: number = 1000): DiskStat[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM disk_stats
+        WHERE created_at >= ? AND created_at <= ? AND (? IS NULL OR mount = ?)
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC, mount ASC
+    `);
+
+    return stmt.all(since, until, mount ?? null, mount ?? null, limit) as DiskStat[];
+  }
+
+  /**
+   * Block device I/O records within a time range, oldest first
+   */
+  getDiskIOStats(since: number, until: number, device?: string, limit: number = 1000): DiskIOStat[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM disk_io_stats
+        WHERE created_at >= ? AND created_at <= ? AND (? IS NULL OR device = ?)
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC, device ASC
+    `);
+
+    return stmt.all(since, until, device ?? null, device ?? null, limit) as DiskIOStat[];
+  }
+
+  /**
+   * Network throughput rows within a time range, oldest first
+   */
+  getNetStats(since: number, until: number, iface?: string, limit: number = 1000): NetStat[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM net_stats
+        WHERE created_at >= ? AND created_at <= ? AND (? IS NULL OR interface = ?)
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC, interface ASC
+    `);
+
+    return stmt.all(since, until, iface ?? null, iface ?? null, limit) as NetStat[];
+  }
+
+  /**
+   * Samples of a single PID within a time range, oldest first
+   */
+  getProcessSamplesByPid(pid: number, since: number, until: number, limit: number = 1000): ProcessSample[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM process_samples
+        WHERE pid = ? AND created_at >= ? AND created_at <= ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC
+    `);
+
+    return stmt.all(pid, since, until, limit) as ProcessSample[];
+  }
+
+  /**
+   * Samples of every process with a name, summed per tick, oldest first
+   */
+  getProcessSamplesByName(name: string, since: number, until: number, limit: number = 1000) {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT
+          created_at,
+          SUM(rss_kb) as rss_kb,
+          SUM(cpu_percent) as cpu_percent,
+          COUNT(*) as process_count,
+          GROUP_CONCAT(pid) as pids
+        FROM process_samples
+        WHERE name = ? AND created_at >= ? AND created_at <= ?
+        GROUP BY created_at
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC
+    `);
+
+    return stmt.all(name, since, until, limit) as {
+      created_at: number;
+      rss_kb: number;
+      cpu_percent: number;
+      process_count: number;
+      pids: string;
+    }[];
+  }
+
+  /**
+   * System stats within a time range, oldest first
+   */
+  getSystemStatsBetween(since: number, until: number = Date.now()): SystemStat[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM system_stats
+      WHERE created_at >= ? AND created_at <= ?
+      ORDER BY created_at ASC
+    `);
+
+    return stmt.all(since, until) as SystemStat[];
+  }
+
   /**
    * Get all killed processes
    */
@@ -228,6 +1186,100 @@ class DatabaseClient {
     return stmt.all(...params) as Event[];
   }
 
+  /**
+   * Save the detector's backoff state (single row)
+   */
+  saveDetectorState(state: DetectorState): void {
+    const db = this.getDb();
+    db.prepare(`
+      INSERT OR REPLACE INTO detector_state (id, last_trigger_time, cooldown_multiplier, is_in_cooldown, updated_at)
+      VALUES (1, ?, ?, ?, ?)
+    `).run(state.last_trigger_time, state.cooldown_multiplier, state.is_in_cooldown, state.updated_at);
+  }
+
+  /**
+   * The detector's last saved backoff state, if any
+   */
+  getDetectorState(): DetectorState | null {
+    const db = this.getDb();
+    return (db.prepare('SELECT * FROM detector_state WHERE id = 1').get() as DetectorState | null) ?? null;
+  }
+
+  /**
+   * Insert one detector decision
+   */
+  insertDetectionEvent(record: DetectionRecord): number {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      INSERT INTO detection_events (
+        outcome, ram_percent, threshold, psi_some_avg10, psi_full_avg10, reasons, pending,
+        consecutive_count, cooldown_multiplier, cooldown_remaining_ms, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      record.outcome,
+      record.ram_percent,
+      record.threshold,
+      record.psi_some_avg10,
+      record.psi_full_avg10,
+      record.reasons,
+      record.pending,
+      record.consecutive_count,
+      record.cooldown_multiplier,
+      record.cooldown_remaining_ms,
+      record.created_at
+    );
+
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Detector decisions within a time range (the latest `limit`), oldest first
+   */
+  getDetectionEvents(since: number, until: number, limit: number = 100, outcome?: string): DetectionRecord[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM detection_events
+        WHERE created_at >= ? AND created_at <= ? ${outcome ? 'AND outcome = ?' : ''}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+      )
+      ORDER BY created_at ASC, id ASC
+    `);
+
+    const params: any[] = [since, until];
+    if (outcome) params.push(outcome);
+    params.push(limit);
+
+    return stmt.all(...params) as DetectionRecord[];
+  }
+
+  /**
+   * Delete detector decisions older than a timestamp
+   */
+  pruneDetectionEvents(before: number): number {
+    const db = this.getDb();
+    const result = db.prepare('DELETE FROM detection_events WHERE created_at < ?').run(before);
+    return result.changes;
+  }
+
+  /**
+   * Number of detector decisions and triggered actions since a timestamp
+   */
+  countDetectionEvents(since: number = 0): { total: number; triggered: number } {
+    const db = this.getDb();
+    const counts = db.prepare(`
+      SELECT COUNT(*) as total, SUM(CASE WHEN outcome = 'triggered' THEN 1 ELSE 0 END) as triggered
+      FROM detection_events
+      WHERE created_at >= ?
+    `).get(since) as { total: number; triggered: number | null };
+
+    return { total: counts.total, triggered: counts.triggered ?? 0 };
+  }
+
   /**
    * Clean old records (for maintenance)
    */
@@ -235,9 +1287,14 @@ class DatabaseClient {
     const db = this.getDb();
     const cutoffTime = Date.now() - (daysToKeep * 24 * 60 * 60 * 1000);
 
-    db.run('DELETE FROM commands WHERE created_at < ?', cutoffTime);
-    db.run('DELETE FROM system_stats WHERE created_at < ?', cutoffTime);
-    db.run('DELETE FROM events WHERE created_at < ?', cutoffTime);
+    db.run('DELETE FROM commands WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM system_stats WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM events WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM cpu_stats WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM disk_stats WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM disk_io_stats WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM process_samples WHERE created_at < ?', [cutoffTime]);
+    db.run('DELETE FROM detection_events WHERE created_at < ?', [cutoffTime]);
 
     logger.info(`Cleaned records older than ${daysToKeep} days`);
   }
@@ -7,12 +7,65 @@ export const SCHEMA = {
       user TEXT NOT NULL,
       exit_code INTEGER,
       duration_ms INTEGER,
+      status TEXT NOT NULL DEFAULT 'running',
+      ended_at INTEGER,
+      redacted_rules TEXT,
+      session_id TEXT,
+      shell TEXT,
+      hostname TEXT,
+      project TEXT,
+      project_root TEXT,
+      repo_root TEXT,
+      git_branch TEXT,
+      idempotency_key TEXT,
+      source TEXT,
+      base_cmd TEXT,
+      subcommand TEXT,
+      programs TEXT,
       created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
     );
     CREATE INDEX IF NOT EXISTS idx_commands_created_at ON commands(created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_commands_user ON commands(user);
   `,
 
+  // Full-text index over commands (external content, kept in sync by triggers)
+  commands_fts: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS commands_fts USING fts5(
+      cmd,
+      cwd,
+      content='commands',
+      content_rowid='id'
+    );
+    CREATE TRIGGER IF NOT EXISTS commands_fts_insert AFTER INSERT ON commands BEGIN
+      INSERT INTO commands_fts(rowid, cmd, cwd) VALUES (new.id, new.cmd, new.cwd);
+    END;
+    CREATE TRIGGER IF NOT EXISTS commands_fts_delete AFTER DELETE ON commands BEGIN
+      INSERT INTO commands_fts(commands_fts, rowid, cmd, cwd) VALUES ('delete', old.id, old.cmd, old.cwd);
+    END;
+    CREATE TRIGGER IF NOT EXISTS commands_fts_update AFTER UPDATE OF cmd, cwd ON commands BEGIN
+      INSERT INTO commands_fts(commands_fts, rowid, cmd, cwd) VALUES ('delete', old.id, old.cmd, old.cwd);
+      INSERT INTO commands_fts(rowid, cmd, cwd) VALUES (new.id, new.cmd, new.cwd);
+    END;
+  `,
+
+  sessions: `
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user TEXT NOT NULL,
+      hostname TEXT,
+      shell TEXT,
+      tty TEXT,
+      shell_pid INTEGER,
+      command_count INTEGER NOT NULL DEFAULT 0,
+      started_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      ended_at INTEGER,
+      end_reason TEXT CHECK(end_reason IN ('exit', 'idle'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_started_at ON sessions(started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_sessions_shell ON sessions(hostname, shell_pid, ended_at);
+  `,
+
   system_stats: `
     CREATE TABLE IF NOT EXISTS system_stats (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -20,14 +73,134 @@ export const SCHEMA = {
       ram_used_mb INTEGER NOT NULL,
       ram_available_mb INTEGER NOT NULL,
       ram_percent REAL NOT NULL,
+      ram_free_mb INTEGER,
+      buffers_mb INTEGER,
+      cached_mb INTEGER,
       swap_total_mb INTEGER,
       swap_used_mb INTEGER,
+      swap_in_per_sec REAL,
+      swap_out_per_sec REAL,
+      load1 REAL,
+      load5 REAL,
+      load15 REAL,
+      uptime_seconds INTEGER,
+      psi_some_avg10 REAL,
+      psi_some_avg60 REAL,
+      psi_some_avg300 REAL,
+      psi_some_total INTEGER,
+      psi_full_avg10 REAL,
+      psi_full_avg60 REAL,
+      psi_full_avg300 REAL,
+      psi_full_total INTEGER,
+      memory_view TEXT,
       created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
     );
     CREATE INDEX IF NOT EXISTS idx_system_stats_created_at ON system_stats(created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_system_stats_ram_percent ON system_stats(ram_percent);
   `,
 
+  // CPU utilization per monitor tick (per-core breakdown as JSON)
+  cpu_stats: `
+    CREATE TABLE IF NOT EXISTS cpu_stats (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      percent REAL NOT NULL,
+      user_percent REAL NOT NULL,
+      system_percent REAL NOT NULL,
+      iowait_percent REAL NOT NULL,
+      steal_percent REAL NOT NULL,
+      idle_percent REAL NOT NULL,
+      core_count INTEGER NOT NULL,
+      cores TEXT,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+    );
+    CREATE INDEX IF NOT EXISTS idx_cpu_stats_created_at ON cpu_stats(created_at DESC);
+  `,
+
+  // Filesystem space/inode usage per mount
+  disk_stats: `
+    CREATE TABLE IF NOT EXISTS disk_stats (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      mount TEXT NOT NULL,
+      device TEXT NOT NULL,
+      fs_type TEXT NOT NULL,
+      total_mb REAL NOT NULL,
+      used_mb REAL NOT NULL,
+      available_mb REAL NOT NULL,
+      percent REAL NOT NULL,
+      inodes_total INTEGER,
+      inodes_used INTEGER,
+      inodes_percent REAL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+    );
+    CREATE INDEX IF NOT EXISTS idx_disk_stats_created_at ON disk_stats(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_disk_stats_mount ON disk_stats(mount, created_at);
+  `,
+
+  // Block device I/O rates per collection interval
+  disk_io_stats: `
+    CREATE TABLE IF NOT EXISTS disk_io_stats (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device TEXT NOT NULL,
+      read_bytes_per_sec REAL NOT NULL,
+      write_bytes_per_sec REAL NOT NULL,
+      reads_per_sec REAL NOT NULL,
+      writes_per_sec REAL NOT NULL,
+      util_percent REAL NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+    );
+    CREATE INDEX IF NOT EXISTS idx_disk_io_stats_created_at ON disk_io_stats(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_disk_io_stats_device ON disk_io_stats(device, created_at);
+  `,
+
+  // Network throughput per interface; idle intervals are not stored
+  net_stats: `
+    CREATE TABLE IF NOT EXISTS net_stats (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      interface TEXT NOT NULL,
+      rx_bytes_per_sec INTEGER NOT NULL,
+      tx_bytes_per_sec INTEGER NOT NULL,
+      rx_packets_per_sec REAL NOT NULL,
+      tx_packets_per_sec REAL NOT NULL,
+      rx_errors INTEGER NOT NULL DEFAULT 0,
+      tx_errors INTEGER NOT NULL DEFAULT 0,
+      rx_dropped INTEGER NOT NULL DEFAULT 0,
+      tx_dropped INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_net_stats_created_at ON net_stats(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_net_stats_interface ON net_stats(interface, created_at);
+  `,
+
+  // Downsampled system/CPU metrics: one row per resolution (1m, 1h, 1d), metric and bucket
+  metric_rollups: `
+    CREATE TABLE IF NOT EXISTS metric_rollups (
+      resolution TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      bucket_start INTEGER NOT NULL,
+      avg REAL NOT NULL,
+      min REAL NOT NULL,
+      max REAL NOT NULL,
+      samples INTEGER NOT NULL,
+      PRIMARY KEY (resolution, metric, bucket_start)
+    );
+    CREATE INDEX IF NOT EXISTS idx_metric_rollups_bucket ON metric_rollups(resolution, bucket_start);
+  `,
+
+  // Top-N processes by RSS, sampled on the RAM monitor tick
+  process_samples: `
+    CREATE TABLE IF NOT EXISTS process_samples (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      pid INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      rss_kb INTEGER NOT NULL,
+      cpu_percent REAL NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_process_samples_created_at ON process_samples(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_process_samples_pid ON process_samples(pid, created_at);
+    CREATE INDEX IF NOT EXISTS idx_process_samples_name ON process_samples(name, created_at);
+  `,
+
   killed_processes: `
     CREATE TABLE IF NOT EXISTS killed_processes (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -55,9 +228,100 @@ export const SCHEMA = {
     CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
     CREATE INDEX IF NOT EXISTS idx_events_severity ON events(severity);
+  `,
+
+  // RAMDetector backoff, a single row restored on startup
+  detector_state: `
+    CREATE TABLE IF NOT EXISTS detector_state (
+      id INTEGER PRIMARY KEY CHECK(id = 1),
+      last_trigger_time INTEGER NOT NULL,
+      cooldown_multiplier REAL NOT NULL,
+      is_in_cooldown INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `,
+
+  // Every detector decision while pressure is high: triggered, held by cooldown or waiting out dwell time
+  detection_events: `
+    CREATE TABLE IF NOT EXISTS detection_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      outcome TEXT NOT NULL CHECK(outcome IN ('triggered', 'cooldown', 'dwell')),
+      ram_percent REAL NOT NULL,
+      threshold REAL NOT NULL,
+      psi_some_avg10 REAL,
+      psi_full_avg10 REAL,
+      reasons TEXT NOT NULL,
+      pending TEXT NOT NULL,
+      consecutive_count INTEGER NOT NULL,
+      cooldown_multiplier REAL NOT NULL,
+      cooldown_remaining_ms INTEGER,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_detection_events_created_at ON detection_events(created_at DESC);
   `
 };
 
+/**
+ * Columns added after the initial release. Existing databases are
+ * upgraded with ALTER TABLE on startup; fresh ones get them from SCHEMA.
+ */
+export const COLUMN_MIGRATIONS: ColumnMigration[] = [
+  { table: 'commands', column: 'status', definition: "TEXT NOT NULL DEFAULT 'finished'" },
+  { table: 'commands', column: 'ended_at', definition: 'INTEGER' },
+  { table: 'commands', column: 'redacted_rules', definition: 'TEXT' },
+  { table: 'commands', column: 'session_id', definition: 'TEXT' },
+  { table: 'commands', column: 'shell', definition: 'TEXT' },
+  { table: 'commands', column: 'hostname', definition: 'TEXT' },
+  { table: 'commands', column: 'project', definition: 'TEXT' },
+  { table: 'commands', column: 'project_root', definition: 'TEXT' },
+  { table: 'commands', column: 'repo_root', definition: 'TEXT' },
+  { table: 'commands', column: 'git_branch', definition: 'TEXT' },
+  { table: 'commands', column: 'idempotency_key', definition: 'TEXT' },
+  { table: 'commands', column: 'source', definition: 'TEXT' },
+  { table: 'commands', column: 'base_cmd', definition: 'TEXT' },
+  { table: 'commands', column: 'subcommand', definition: 'TEXT' },
+  { table: 'commands', column: 'programs', definition: 'TEXT' },
+  { table: 'system_stats', column: 'psi_some_avg10', definition: 'REAL' },
+  { table: 'system_stats', column: 'psi_some_avg60', definition: 'REAL' },
+  { table: 'system_stats', column: 'psi_some_avg300', definition: 'REAL' },
+  { table: 'system_stats', column: 'psi_some_total', definition: 'INTEGER' },
+  { table: 'system_stats', column: 'psi_full_avg10', definition: 'REAL' },
+  { table: 'system_stats', column: 'psi_full_avg60', definition: 'REAL' },
+  { table: 'system_stats', column: 'psi_full_avg300', definition: 'REAL' },
+  { table: 'system_stats', column: 'psi_full_total', definition: 'INTEGER' },
+  { table: 'system_stats', column: 'memory_view', definition: 'TEXT' },
+  { table: 'system_stats', column: 'ram_free_mb', definition: 'INTEGER' },
+  { table: 'system_stats', column: 'buffers_mb', definition: 'INTEGER' },
+  { table: 'system_stats', column: 'cached_mb', definition: 'INTEGER' },
+  { table: 'system_stats', column: 'swap_in_per_sec', definition: 'REAL' },
+  { table: 'system_stats', column: 'swap_out_per_sec', definition: 'REAL' },
+  { table: 'system_stats', column: 'load1', definition: 'REAL' },
+  { table: 'system_stats', column: 'load5', definition: 'REAL' },
+  { table: 'system_stats', column: 'load15', definition: 'REAL' },
+  { table: 'system_stats', column: 'uptime_seconds', definition: 'INTEGER' }
+];
+
+/**
+ * Indexes on migrated columns (must run after COLUMN_MIGRATIONS)
+ */
+export const MIGRATION_INDEXES: string[] = [
+  'CREATE INDEX IF NOT EXISTS idx_commands_status ON commands(status, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_commands_session ON commands(session_id, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_commands_project ON commands(project, created_at)',
+  'CREATE UNIQUE INDEX IF NOT EXISTS idx_commands_idempotency_key ON commands(idempotency_key) WHERE idempotency_key IS NOT NULL',
+  'CREATE INDEX IF NOT EXISTS idx_commands_base_cmd ON commands(base_cmd, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_commands_unparsed ON commands(id) WHERE programs IS NULL'
+];
+
+export interface ColumnMigration {
+  table: string;
+  column: string;
+  definition: string;
+}
+
+// 'imported' rows come from shell history files and have no known outcome
+export type CommandStatus = 'running' | 'finished' | 'abandoned' | 'imported';
+
 export interface Command {
   id?: number;
   cmd: string;
@@ -65,20 +329,141 @@ export interface Command {
   user: string;
   exit_code?: number;
   duration_ms?: number;
+  status?: CommandStatus;
+  ended_at?: number;
+  redacted_rules?: string; // Comma-separated names of redaction rules that matched
+  session_id?: string;
+  shell?: string;
+  hostname?: string;
+  project?: string;
+  project_root?: string;
+  repo_root?: string;
+  git_branch?: string;
+  idempotency_key?: string;
+  source?: string; // live, replay, bash_history, zsh_history
+  base_cmd?: string;   // Program of the first simple command, e.g. "git"
+  subcommand?: string; // e.g. "git commit", "docker compose up"
+  programs?: string;   // Comma-separated programs in the whole line ("" when none)
   created_at?: number;
 }
 
+export interface Session {
+  id: string;
+  user: string;
+  hostname?: string;
+  shell?: string;
+  tty?: string;
+  shell_pid?: number;
+  command_count?: number;
+  started_at: number;
+  last_seen_at: number;
+  ended_at?: number;
+  end_reason?: 'exit' | 'idle';
+}
+
 export interface SystemStat {
   id?: number;
   ram_total_mb: number;
   ram_used_mb: number;
   ram_available_mb: number;
   ram_percent: number;
+  // Not recorded before the full snapshot was stored
+  ram_free_mb?: number | null;
+  buffers_mb?: number | null;
+  cached_mb?: number | null;
   swap_total_mb?: number;
   swap_used_mb?: number;
+  swap_in_per_sec?: number | null;  // null on the first tick after startup
+  swap_out_per_sec?: number | null;
+  load1?: number | null;
+  load5?: number | null;
+  load15?: number | null;
+  uptime_seconds?: number | null;
+  // Memory PSI (null on kernels without /proc/pressure)
+  psi_some_avg10?: number | null;
+  psi_some_avg60?: number | null;
+  psi_some_avg300?: number | null;
+  psi_some_total?: number | null;
+  psi_full_avg10?: number | null;
+  psi_full_avg60?: number | null;
+  psi_full_avg300?: number | null;
+  psi_full_total?: number | null;
+  memory_view?: 'host' | 'cgroup' | null; // Which view the ram_* columns describe
+  created_at?: number;
+}
+
+export interface CpuStat {
+  id?: number;
+  percent: number;
+  user_percent: number;
+  system_percent: number;
+  iowait_percent: number;
+  steal_percent: number;
+  idle_percent: number;
+  core_count: number;
+  cores?: string; // JSON array of per-core CpuUsage
+  created_at?: number;
+}
+
+export interface DiskStat {
+  id?: number;
+  mount: string;
+  device: string;
+  fs_type: string;
+  total_mb: number;
+  used_mb: number;
+  available_mb: number;
+  percent: number;
+  inodes_total?: number;
+  inodes_used?: number;
+  inodes_percent?: number;
+  created_at?: number;
+}
+
+export interface DiskIOStat {
+  id?: number;
+  device: string;
+  read_bytes_per_sec: number;
+  write_bytes_per_sec: number;
+  reads_per_sec: number;
+  writes_per_sec: number;
+  util_percent: number;
   created_at?: number;
 }
 
+export interface NetStat {
+  id?: number;
+  interface: string;
+  rx_bytes_per_sec: number;
+  tx_bytes_per_sec: number;
+  rx_packets_per_sec: number;
+  tx_packets_per_sec: number;
+  rx_errors: number;
+  tx_errors: number;
+  rx_dropped: number;
+  tx_dropped: number;
+  created_at: number;
+}
+
+export interface MetricRollup {
+  resolution: string;
+  metric: string;
+  bucket_start: number;
+  avg: number;
+  min: number;
+  max: number;
+  samples: number;
+}
+
+export interface ProcessSample {
+  id?: number;
+  pid: number;
+  name: string;
+  rss_kb: number;
+  cpu_percent: number;
+  created_at: number;
+}
+
 export interface KilledProcess {
   id?: number;
   pid: number;
@@ -90,6 +475,30 @@ export interface KilledProcess {
   created_at?: number;
 }
 
+export interface DetectorState {
+  last_trigger_time: number;
+  cooldown_multiplier: number;
+  is_in_cooldown: number;       // 0/1
+  updated_at: number;
+}
+
+export type DetectionOutcome = 'triggered' | 'cooldown' | 'dwell';
+
+export interface DetectionRecord {
+  id?: number;
+  outcome: DetectionOutcome;
+  ram_percent: number;
+  threshold: number;
+  psi_some_avg10: number | null;
+  psi_full_avg10: number | null;
+  reasons: string;              // JSON array of policy metrics that held
+  pending: string;              // JSON array of metrics still within their dwell time
+  consecutive_count: number;
+  cooldown_multiplier: number;
+  cooldown_remaining_ms: number | null;
+  created_at: number;
+}
+
 export interface Event {
   id?: number;
   type: string;
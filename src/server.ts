@@ -2,15 +2,85 @@ import dotenv from "dotenv";
 dotenv.config();
 
 import { Elysia } from 'elysia';
-import { loadConfig, getConfig } from './utils/config';
+import { loadConfig, getConfig, KillTarget } from './utils/config';
 import { logger } from './utils/logger';
 import { dbClient } from './db/client';
-import { commandLogger, CommandPayload } from './services/commandLogger';
+import { commandLogger, CommandPayload, CommandFinishPayload } from './services/commandLogger';
 import { ramMonitor } from './services/ramMonitor';
 import { ramDetector } from './services/ramDetector';
 import { processScanner } from './system/processScanner';
+import { appGrouper } from './system/appGrouper';
+import { cgroupResolver } from './system/cgroupResolver';
 import { processManager } from './services/processManager';
+import { sessionTracker } from './services/sessionTracker';
+import { commandRules } from './services/commandRules';
+import { historyImporter } from './services/historyImporter';
+import { processSampler } from './services/processSampler';
+import { diskMonitor } from './services/diskMonitor';
+import { leakDetector } from './services/leakDetector';
+import { ramForecaster } from './services/ramForecaster';
+import { metricRollups, Resolution } from './services/metricRollups';
 import { timeStamp } from 'console';
+import { CommandFilters, CommandSortField } from './db/client';
+import { DetectionOutcome } from './db/schema';
+
+/**
+ * Parse a query-string timestamp given as epoch milliseconds or an ISO date
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const numeric = Number(value);
+  if (!isNaN(numeric)) return numeric;
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parse an optional integer query parameter
+ */
+function parseOptionalInt(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parse an explicit history resolution (raw, 1m, 1h, 1d)
+ */
+function parseResolution(value: unknown): Resolution | undefined {
+  return value === 'raw' || value === '1m' || value === '1h' || value === '1d' ? value : undefined;
+}
+
+/**
+ * Parse a duration in ms or with a unit (30s, 5m, 1h, 1d)
+ */
+function parseDuration(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d+)(ms|s|m|h|d)?$/);
+  if (!match) return undefined;
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+  const duration = parseInt(match[1], 10) * units[match[2] ?? 'ms'];
+  return duration > 0 ? duration : undefined;
+}
+
+/**
+ * Parse the command filters shared by /commands and /commands/search
+ */
+function parseCommandFilters(query: Record<string, string | undefined>): CommandFilters {
+  const exit = query.exit;
+
+  return {
+    since: parseTimestamp(query.since),
+    until: parseTimestamp(query.until),
+    cwdPrefix: query.cwd,
+    user: query.user,
+    shell: query.shell,
+    hostname: query.host,
+    exit: exit === 'success' || exit === 'failure' ? exit : parseOptionalInt(exit),
+    minDurationMs: parseOptionalInt(query.min_duration)
+  };
+}
 
 // Load configuration
 loadConfig();
@@ -26,6 +96,9 @@ try {
   process.exit(1);
 }
 
+// Start abandoned-command sweep
+commandLogger.start();
+
 // Start RAM monitoring
 try {
   ramMonitor.start();
@@ -38,12 +111,19 @@ try {
   logger.error('❌ Failed to start RAM monitoring', error);
 }
 
+// Start disk space/I/O monitoring
+diskMonitor.start();
+
+// Downsample system/CPU stats into 1m/1h/1d rollups
+metricRollups.start();
+
 const app = new Elysia()
   .get('/health', () => {
     try {
       const cmdStats = commandLogger.getStats();
       const ramStatus = ramMonitor.getStatus();
       const lastSnapshot = ramMonitor.getLastSnapshot();
+      const lastCpu = ramMonitor.getLastCpu();
       const procStats = processScanner.getStats();
       const killStats = processManager.getKilledProcessStats();
 
@@ -63,6 +143,10 @@ const app = new Elysia()
             inCooldown: ramStatus.detector.isInCooldown
           }
         },
+        cpu: lastCpu ? {
+          percent: lastCpu.total.percent,
+          iowait: lastCpu.total.iowait
+        } : null,
         processes: procStats,
         killedProcesses: killStats,
         stats: {
@@ -82,12 +166,43 @@ const app = new Elysia()
     version: '1.0.0',
     endpoints: {
       health: '/health',
+      ramForecast: '/ram/forecast',
+      ramHistory: '/ram/history?from=&to=&step=',
+      ramStats: '/ram/stats?minutes=',
+      detectorHistory: '/detector/history?since=&until=&outcome=',
+      cpuCurrent: '/cpu/current',
+      cpuHistory: '/cpu/history',
+      netCurrent: '/net/current',
+      netHistory: '/net/history',
+      diskCurrent: '/disk/current',
+      diskHistory: '/disk/history',
       processes: '/processes',
       processesKillable: '/processes/killable',
+      processTree: '/processes/tree',
+      apps: '/apps',
+      cgroups: '/cgroups',
+      processLeaks: '/processes/leaks',
+      processHistory: '/processes/:pid/history',
+      processNameHistory: '/processes/by-name/:name/history',
       killDryRun: '/kill/dry-run',
       killByPid: 'POST /kill/:pid',
+      killApp: 'POST /apps/:pid/kill',
       killedHistory: '/killed/history',
       killedStats: '/killed/stats',
+      commandStart: 'POST /api/command',
+      commandFinish: 'POST /api/command/:id/finish',
+      commandFinishByKey: 'POST /api/command/finish',
+      commandBatch: 'POST /api/commands/batch',
+      historyImport: 'POST /api/import/history',
+      commandSearch: '/commands/search?q=',
+      redactScrub: 'POST /maintenance/redact',
+      normalizeCommands: 'POST /maintenance/normalize-commands',
+      sessions: '/sessions',
+      sessionCommands: '/sessions/:id/commands',
+      sessionEnd: 'POST /api/session/:id/end',
+      projectReport: '/reports/projects',
+      rules: '/rules',
+      rulesTest: 'POST /rules/test',
       graphql: '/graphql (coming in Step 8)'
     }
   }))
@@ -98,22 +213,264 @@ const app = new Elysia()
       if (!payload.cmd || !payload.cwd) {
         return { success: false, error: 'Missing required fields' };
       }
-      const id = commandLogger.logCommand(payload);
-      return id ? { success: true, id } : { success: false };
+      const outcome = commandLogger.tryLogCommand(payload);
+      if (outcome.refused) {
+        // Answered on purpose: hooks spool only when the tracker can't be reached
+        return { success: false, refused: true };
+      }
+      return outcome.id ? { success: true, id: outcome.id } : { success: false };
     } catch (error) {
       return { success: false, error: String(error) };
     }
   })
 
-  .get('/commands', () => {
-    const commands = dbClient.getRecentCommands(50);
-    return { commands, count: commands.length };
+  .post('/api/commands/batch', ({ body }) => {
+    try {
+      const payloads = (Array.isArray(body) ? body : (body as any)?.commands) as CommandPayload[] | undefined;
+      if (!Array.isArray(payloads)) {
+        return { success: false, error: 'Expected an array of commands' };
+      }
+
+      if (payloads.length > 1000) {
+        return { success: false, error: 'Batch too large (max 1000 commands)' };
+      }
+
+      const results = commandLogger.logBatch(payloads);
+      return {
+        success: true,
+        inserted: results.filter(r => r.status === 'inserted').length,
+        duplicates: results.filter(r => r.status === 'duplicate').length,
+        refused: results.filter(r => r.status === 'refused').length,
+        rejected: results.filter(r => r.status === 'rejected').length,
+        results
+      };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  })
+
+  .post('/api/import/history', ({ body }) => {
+    try {
+      const payload = body as any;
+      if (typeof payload?.content !== 'string' || !payload.content) {
+        return { success: false, error: 'Missing required field: content' };
+      }
+
+      const format = ['bash', 'zsh'].includes(payload.format) ? payload.format : 'auto';
+      const result = historyImporter.import(payload.content, {
+        format,
+        user: payload.user,
+        hostname: payload.hostname,
+        cwd: payload.cwd
+      });
+
+      return { success: true, ...result };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  })
+
+  .post('/api/command/finish', ({ body }) => {
+    try {
+      const payload = body as CommandFinishPayload & { idempotency_key?: string };
+      if (!payload?.idempotency_key || payload.exit_code === undefined) {
+        return { success: false, error: 'Missing required fields' };
+      }
+
+      const command = commandLogger.finishCommandByKey(payload.idempotency_key, payload);
+      return command ? { success: true, command } : { success: false, error: 'Cannot finish command' };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  })
+
+  .post('/api/command/:id/finish', ({ params, body }) => {
+    try {
+      const id = parseInt(params.id, 10);
+      if (isNaN(id)) {
+        return { success: false, error: 'Invalid command ID' };
+      }
+
+      const payload = body as CommandFinishPayload;
+      if (payload?.exit_code === undefined) {
+        return { success: false, error: 'Missing required fields' };
+      }
+
+      const command = commandLogger.finishCommand(id, payload);
+      return command ? { success: true, command } : { success: false, error: 'Cannot finish command' };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  })
+
+  .get('/commands', ({ query }) => {
+    const sortFields: CommandSortField[] = ['created_at', 'duration_ms', 'id'];
+    const sort = sortFields.includes(query.sort as CommandSortField)
+      ? query.sort as CommandSortField
+      : 'created_at';
+
+    const page = dbClient.listCommands({
+      ...parseCommandFilters(query),
+      before: parseOptionalInt(query.before),
+      after: parseOptionalInt(query.after),
+      sort,
+      order: query.order === 'asc' ? 'asc' : 'desc',
+      limit: Math.min(parseInt(query.limit as string) || 50, 1000)
+    });
+
+    return { ...page, count: page.commands.length };
+  })
+
+  .post('/api/session/:id/end', ({ params }) => {
+    const session = sessionTracker.endSession(params.id);
+    return session ? { success: true, session } : { success: false, error: 'Session not found or already ended' };
+  })
+
+  .get('/sessions', ({ query }) => {
+    const active = query.active as string | undefined;
+    const sessions = dbClient.getSessions({
+      active: active === undefined ? undefined : active === 'true',
+      hostname: query.host as string | undefined,
+      user: query.user as string | undefined,
+      since: parseTimestamp(query.since),
+      limit: parseInt(query.limit as string) || 50
+    });
+    return { sessions, count: sessions.length };
+  })
+
+  .get('/sessions/:id', ({ params }) => dbClient.getSession(params.id) || { error: 'Session not found' })
+
+  .get('/sessions/:id/commands', ({ params, query }) => {
+    const session = dbClient.getSession(params.id);
+    if (!session) {
+      return { error: 'Session not found' };
+    }
+
+    const limit = parseInt(query.limit as string) || 1000;
+    const commands = dbClient.getSessionCommands(params.id, limit);
+    return { session, commands, count: commands.length };
+  })
+
+  .get('/commands/search', ({ query }) => {
+    const q = (query.q as string || '').trim();
+    if (!q) {
+      return { error: 'Missing search query (q)' };
+    }
+
+    try {
+      const results = dbClient.searchCommands(q, {
+        ...parseCommandFilters(query),
+        limit: Math.min(parseInt(query.limit as string) || 50, 500),
+        offset: parseInt(query.offset as string) || 0
+      });
+      return { query: q, results, count: results.length };
+    } catch (error) {
+      return { error: `Invalid search query: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  })
+
+  .get('/rules', () => {
+    const rules = commandRules.getRules();
+    return { rules, count: rules.length };
+  })
+
+  .post('/rules/test', ({ body }) => {
+    const cmd = (body as any)?.cmd;
+    if (typeof cmd !== 'string' || !cmd.trim()) {
+      return { success: false, error: 'Missing required field: cmd' };
+    }
+
+    return { success: true, cmd, ...commandRules.evaluate(cmd) };
   })
 
   .get('/ram/current', () => ramMonitor.getLastSnapshot() || { error: 'No data' })
   .get('/ram/status', () => ramMonitor.getStatus())
+  .get('/ram/forecast', () => ramForecaster.forecast())
+
+  // Bucketed avg/min/max of RAM, cache, swap, load and PSI (default: last hour)
+  .get('/ram/history', ({ query }) => {
+    const to = parseTimestamp(query.to) ?? Date.now();
+    const from = parseTimestamp(query.from) ?? to - 60 * 60 * 1000;
+    const step = parseDuration(query.step);
+
+    if (query.step && step === undefined) {
+      return { error: 'Invalid step (ms, or e.g. 30s, 5m, 1h, 1d)' };
+    }
+    if (from >= to) {
+      return { error: 'from must be before to' };
+    }
+
+    const series = ramMonitor.getBucketedHistory(from, to, step);
+    return {
+      history: series.points,
+      from,
+      to,
+      step: series.step,
+      resolution: series.resolution,
+      count: series.points.length
+    };
+  })
+
+  // avg/min/max RAM usage over the last `minutes` (default 60)
+  .get('/ram/stats', ({ query }) => ramMonitor.getStats(parseOptionalInt(query.minutes) ?? 60))
   .get('/detector/stats', () => ramDetector.getStats())
 
+  // Every detector decision (default: last 24h): triggered, held by cooldown or waiting out dwell time
+  .get('/detector/history', ({ query }) => {
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 24 * 60 * 60 * 1000;
+    const outcome = query.outcome as DetectionOutcome | undefined;
+
+    if (outcome && !['triggered', 'cooldown', 'dwell'].includes(outcome)) {
+      return { error: 'outcome must be triggered, cooldown or dwell' };
+    }
+
+    const history = ramDetector.getHistory(parseOptionalInt(query.limit) ?? 500, since, until, outcome);
+    return { history, since, until, count: history.length };
+  })
+
+  .get('/cpu/current', () => ramMonitor.getLastCpu() || { error: 'No data' })
+
+  .get('/net/current', () => ramMonitor.getLastNetwork() || { error: 'No data' })
+
+  // Network throughput per interface (default: last hour); idle intervals are omitted
+  .get('/net/history', ({ query }) => {
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 60 * 60 * 1000;
+    const history = ramMonitor.getNetworkHistory(since, until, query.interface, parseOptionalInt(query.limit));
+
+    return { history, since, until, count: history.length };
+  })
+
+  .get('/disk/current', () => diskMonitor.getCurrent() || { error: 'No data' })
+
+  // Filesystem usage and device I/O (default: last 24h), optionally for one mount/device
+  .get('/disk/history', ({ query }) => {
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 24 * 60 * 60 * 1000;
+    const history = diskMonitor.getHistory(since, until, {
+      mount: query.mount,
+      device: query.device,
+      limit: parseOptionalInt(query.limit)
+    });
+
+    return { ...history, since, until };
+  })
+
+  // CPU utilization (default: last hour). Per tick for short ranges, where cores=true
+  // adds the per-core breakdown; longer ranges return 1m/1h/1d avg/min/max buckets
+  .get('/cpu/history', ({ query }) => {
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 60 * 60 * 1000;
+    const resolution = parseResolution(query.resolution) ?? metricRollups.pickResolution(since, until);
+
+    const history = resolution === 'raw'
+      ? ramMonitor.getCpuHistory(since, until, parseOptionalInt(query.limit), query.cores === 'true')
+      : metricRollups.getSeries(['cpu_percent', 'cpu_iowait'], since, until, resolution);
+
+    return { history, since, until, resolution, count: history.length };
+  })
+
   .get('/processes', () => {
     const processes = processScanner.getUserProcesses();
     return { processes, count: processes.length };
@@ -130,10 +487,64 @@ const app = new Elysia()
     return { processes: top, count: top.length };
   })
 
+  // User processes nested by parent, with memory/CPU summed over each subtree
+  .get('/processes/tree', () => {
+    const tree = appGrouper.getTree();
+    return { tree, count: tree.length };
+  })
+
+  // Processes grouped into applications (killable=true for kill candidates only)
+  .get('/apps', ({ query }) => {
+    const apps = query.killable === 'true' ? appGrouper.getKillableApps() : appGrouper.getApps();
+    const limit = parseOptionalInt(query.limit);
+    const result = limit ? apps.slice(0, limit) : apps;
+    return { apps: result, count: result.length };
+  })
+
+  // Memory/CPU per systemd unit and per container, from each process's cgroup
+  .get('/cgroups', () => {
+    const usage = cgroupResolver.getUsage(processScanner.getUserProcesses());
+    return { ...usage, count: usage.units.length + usage.containers.length };
+  })
+
+  // Processes whose RSS keeps growing (all=true lists every tracked trend)
+  .get('/processes/leaks', ({ query }) => {
+    const leaks = leakDetector.getLeaks(query.all === 'true');
+    return { processes: leaks, count: leaks.length };
+  })
+
+  // Sampled memory history of one PID (default: last 24h)
+  .get('/processes/:pid/history', ({ params, query }) => {
+    const pid = parseInt(params.pid, 10);
+    if (isNaN(pid)) {
+      return { error: 'Invalid PID' };
+    }
+
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 24 * 60 * 60 * 1000;
+    const history = processSampler.getPidHistory(pid, since, until, parseOptionalInt(query.limit));
+
+    return { ...history, since, until, count: history.samples.length };
+  })
+
+  // Sampled memory history of all processes with a name, summed per sample
+  .get('/processes/by-name/:name/history', ({ params, query }) => {
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 24 * 60 * 60 * 1000;
+    const history = processSampler.getNameHistory(
+      decodeURIComponent(params.name), since, until, parseOptionalInt(query.limit)
+    );
+
+    return { ...history, since, until, count: history.samples.length };
+  })
+
   // Kill endpoints
   .get('/kill/dry-run', ({ query }) => {
     const maxKills = parseInt(query.max as string) || 1;
-    return processManager.getDryRun(maxKills);
+    if (query.target && query.target !== 'process' && query.target !== 'app') {
+      return { error: 'Invalid target (process, app)' };
+    }
+    return processManager.getDryRun(maxKills, query.target as KillTarget | undefined);
   })
 
   .post('/kill/:pid', async ({ params, body }) => {
@@ -152,6 +563,23 @@ const app = new Elysia()
     return { success: result.success, result };
   })
 
+  // Kill the whole application a PID belongs to
+  .post('/apps/:pid/kill', async ({ params, body }) => {
+    const pid = parseInt(params.pid, 10);
+    if (isNaN(pid)) {
+      return { success: false, error: 'Invalid PID' };
+    }
+
+    const reason = (body as any)?.reason || 'Manual kill request';
+    const result = await processManager.killAppByPid(pid, reason);
+
+    if ('error' in result) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: result.success, result };
+  })
+
   .get('/killed/history', ({ query }) => {
     const limit = parseInt(query.limit as string) || 50;
     const history = dbClient.getKilledProcesses(limit);
@@ -184,24 +612,27 @@ const app = new Elysia()
 
     const total = db.prepare('SELECT COUNT(*) as c FROM commands WHERE created_at > ?').get(since) as { c: number };
 
-    const top = db
-      .prepare(`
-      SELECT 
-        SUBSTR(cmd, 1, INSTR(cmd || ' ', ' ') - 1) as base_cmd,
-        COUNT(*) as count
-      FROM commands
-      WHERE created_at > ?
-      GROUP BY base_cmd
-      ORDER BY count DESC
-      LIMIT 10
-    `)
-      .all(since) as { base_cmd: string; count: number }[];
-
     return {
       generatedAt: new Date().toISOString(),
       window: 'last_24h',
       totalCommands: total.c,
-      topCommands: top
+      topCommands: commandLogger.getTopPrograms(since),
+      topSubcommands: commandLogger.getTopSubcommands(since)
+    };
+  })
+
+  // Per-project activity report (default: last 7 days)
+  .get('/reports/projects', ({ query }) => {
+    const until = parseTimestamp(query.until) ?? Date.now();
+    const since = parseTimestamp(query.since) ?? until - 7 * 24 * 60 * 60 * 1000;
+    const projects = commandLogger.getProjectReport(since, until);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      since,
+      until,
+      projects,
+      count: projects.length
     };
   })
 
@@ -211,16 +642,7 @@ const app = new Elysia()
     const since = Date.now() - sevenDays;
     const db = dbClient.getDb();
 
-    const ramStats = db
-      .prepare(`
-      SELECT 
-        AVG(ram_percent) as avg_percent,
-        MAX(ram_percent) as max_percent,
-        MIN(ram_percent) as min_percent
-      FROM system_stats
-      WHERE created_at > ?
-    `)
-      .get(since) as any;
+    const ramStats = metricRollups.getSummary('ram_percent', since);
 
     const kills = db
       .prepare(`
@@ -236,9 +658,10 @@ const app = new Elysia()
       generatedAt: new Date().toISOString(),
       window: 'last_7d',
       ram: {
-        avg: Math.round((ramStats.avg_percent || 0) * 100) / 100,
-        max: ramStats.max_percent || 0,
-        min: ramStats.min_percent || 0
+        avg: Math.round((ramStats.avg || 0) * 100) / 100,
+        max: ramStats.max || 0,
+        min: ramStats.min || 0,
+        resolution: ramStats.resolution
       },
       killed: {
         total: kills.total_killed || 0,
@@ -247,6 +670,24 @@ const app = new Elysia()
     };
   })
 
+  // Re-apply redaction rules to commands already stored
+  .post('/maintenance/redact', () => {
+    try {
+      return { success: true, ...commandLogger.scrubStoredCommands() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  })
+
+  // Re-parse stored commands into base_cmd/subcommand/programs
+  .post('/maintenance/normalize-commands', () => {
+    try {
+      return { success: true, ...commandLogger.normalizeStoredCommands(true) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  })
+
   // DB backup info endpoint – n8n can hit this then run a backup
   .get('/backup/info', () => {
     const config = getConfig();
@@ -262,6 +703,9 @@ const app = new Elysia()
 const shutdown = () => {
   logger.info('Shutting down gracefully...');
   ramMonitor.stop();
+  diskMonitor.stop();
+  metricRollups.stop();
+  commandLogger.stop();
   dbClient.close();
   process.exit(0);
 };
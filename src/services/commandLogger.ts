@@ -1,5 +1,13 @@
+import { basename } from 'path';
 import { dbClient } from '../db/client';
 import { logger } from '../utils/logger';
+import { getConfig } from '../utils/config';
+import { Command } from '../db/schema';
+import { secretRedactor } from './secretRedactor';
+import { sessionTracker } from './sessionTracker';
+import { projectResolver } from '../system/projectResolver';
+import { commandRules } from './commandRules';
+import { shellParser } from '../utils/shellParser';
 
 export interface CommandPayload {
   cmd: string;
@@ -9,49 +17,394 @@ export interface CommandPayload {
   duration_ms?: number;
   shell?: string;
   hostname?: string;
+  session_id?: string;
+  shell_pid?: number;
+  tty?: string;
+  executed_at?: number;       // Client-side start time (ms) for replayed commands
+  idempotency_key?: string;   // Client-generated key so replays never duplicate
+  source?: string;            // live (default), replay, bash_history, zsh_history
+}
+
+export interface LogOptions {
+  // Skip rule events/webhooks (e.g. for historical imports); refusals still apply
+  ruleActions?: boolean;
+}
+
+export interface CommandFinishPayload {
+  exit_code: number;
+  duration_ms?: number;
+  ended_at?: number;
+}
+
+export interface LogOutcome {
+  id: number | null;
+  refused: boolean;           // A refuse rule matched: nothing is stored, and clients must not retry it
+}
+
+export interface BatchItemResult {
+  index: number;
+  status: 'inserted' | 'duplicate' | 'refused' | 'rejected';
+  id?: number;
+  error?: string;
 }
 
 export class CommandLogger {
+  private sweepIntervalId: Timer | null = null;
+  private readonly SWEEP_INTERVAL_MS = 60000; // Check for abandoned commands every minute
+  private readonly ACTIVE_GAP_MS = 5 * 60 * 1000; // Longer pauses between commands count as idle
+
+  /**
+   * Start the background sweep that marks unfinished commands as abandoned
+   */
+  start(): void {
+    if (this.sweepIntervalId) {
+      logger.warn('Command abandon sweep is already running');
+      return;
+    }
+
+    // Commands stored before the program columns existed
+    this.normalizeStoredCommands();
+
+    this.sweep();
+
+    this.sweepIntervalId = setInterval(() => {
+      this.sweep();
+    }, this.SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.sweepIntervalId) {
+      clearInterval(this.sweepIntervalId);
+      this.sweepIntervalId = null;
+    }
+  }
+
+  private sweep(): void {
+    this.abandonStaleCommands();
+    sessionTracker.closeIdleSessions();
+  }
+
   /**
    * Log a command to the database
    */
-  logCommand(payload: CommandPayload): number | null {
+  logCommand(payload: CommandPayload, options: LogOptions = {}): number | null {
+    return this.tryLogCommand(payload, options).id;
+  }
+
+  /**
+   * Log a command, telling a refusal by the rules apart from a failure
+   */
+  tryLogCommand(payload: CommandPayload, options: LogOptions = {}): LogOutcome {
+    const ruleActions = options.ruleActions ?? true;
+    const failed: LogOutcome = { id: null, refused: false };
+
     try {
       // Validate required fields
       if (!payload.cmd || !payload.cwd) {
-        logger.warn('Invalid command payload - missing cmd or cwd', payload);
-        return null;
+        // Only the field names: the payload itself hasn't been redacted yet
+        const missing = (['cmd', 'cwd'] as const).filter(field => !payload[field]);
+        logger.warn(`Invalid command payload - missing ${missing.join(', ')}`);
+        return failed;
       }
 
       // Sanitize and prepare data
       const sanitized = this.sanitizeCommand(payload);
 
+      // Strip secrets before anything is stored or logged
+      const redaction = secretRedactor.redact(sanitized.cmd);
+      sanitized.cmd = redaction.text;
+
+      const user = sanitized.user || process.env.USER || 'unknown';
+
+      // Rules can refuse logging entirely
+      const parsed = shellParser.parse(sanitized.cmd);
+      const evaluation = commandRules.evaluate(sanitized.cmd, parsed);
+      if (evaluation.refused) {
+        if (ruleActions) {
+          commandRules.applyActions(sanitized.cmd, evaluation, { cwd: sanitized.cwd, user });
+        }
+        logger.debug('Command refused by rules', evaluation.matches.map(m => m.rule));
+        return { id: null, refused: true };
+      }
+
+      // One-shot payloads that already carry an exit code are complete;
+      // history imports have no outcome; everything else waits for a finish call
+      const imported = sanitized.source?.endsWith('_history') ?? false;
+      const finished = sanitized.exit_code !== undefined;
+      const status = imported ? 'imported' : finished ? 'finished' : 'running';
+
+      // Replayed commands keep their original execution time
+      const executedAt = sanitized.executed_at ?? Date.now();
+
+      const sessionId = sessionTracker.recordActivity({
+        session_id: sanitized.session_id,
+        shell_pid: sanitized.shell_pid,
+        tty: sanitized.tty,
+        shell: sanitized.shell,
+        hostname: sanitized.hostname,
+        user
+      }, executedAt);
+
+      // Attribute the command to the project its cwd belongs to
+      const project = projectResolver.resolve(sanitized.cwd);
+
       // Insert into database
       const id = dbClient.insertCommand({
         cmd: sanitized.cmd,
         cwd: sanitized.cwd,
-        user: sanitized.user || process.env.USER || 'unknown',
+        user,
         exit_code: sanitized.exit_code,
-        duration_ms: sanitized.duration_ms
+        duration_ms: sanitized.duration_ms,
+        status,
+        ended_at: finished || imported ? executedAt + (sanitized.duration_ms ?? 0) : undefined,
+        redacted_rules: redaction.rules.length > 0 ? redaction.rules.join(',') : undefined,
+        session_id: sessionId ?? undefined,
+        shell: sanitized.shell,
+        hostname: sanitized.hostname,
+        project: project?.name,
+        project_root: project?.root,
+        repo_root: project?.repo_root ?? undefined,
+        git_branch: project?.branch ?? undefined,
+        idempotency_key: sanitized.idempotency_key,
+        source: sanitized.source || 'live',
+        base_cmd: parsed.base_cmd ?? undefined,
+        subcommand: parsed.subcommand ?? undefined,
+        programs: parsed.programs.join(','),
+        created_at: sanitized.executed_at
       });
 
       logger.debug(`Command logged: ${sanitized.cmd.substring(0, 50)}...`, { id });
 
-      // Log event for critical commands
-      if (this.isCriticalCommand(sanitized.cmd)) {
-        dbClient.insertEvent({
-          type: 'command_critical',
-          severity: 'warning',
-          message: `Critical command executed: ${sanitized.cmd}`,
-          metadata: JSON.stringify({ cwd: sanitized.cwd, user: sanitized.user })
+      // Run event/webhook actions for matched rules
+      if (ruleActions && evaluation.matches.length > 0) {
+        commandRules.applyActions(sanitized.cmd, evaluation, {
+          cwd: sanitized.cwd,
+          user,
+          session_id: sessionId
         });
       }
 
-      return id;
+      return { id, refused: false };
     } catch (error) {
       logger.error('Failed to log command', error);
+      return failed;
+    }
+  }
+
+  /**
+   * Log a batch of (possibly replayed) commands.
+   * Items whose idempotency key was already stored are reported as duplicates.
+   */
+  logBatch(payloads: CommandPayload[], options: LogOptions = {}): BatchItemResult[] {
+    const db = dbClient.getDb();
+    const results: BatchItemResult[] = [];
+
+    db.transaction(() => {
+      payloads.forEach((payload, index) => {
+        if (!payload || !payload.cmd || !payload.cwd) {
+          results.push({ index, status: 'rejected', error: 'Missing required fields' });
+          return;
+        }
+
+        const key = payload.idempotency_key ? String(payload.idempotency_key) : undefined;
+        const existing = key ? dbClient.getCommandByIdempotencyKey(key) : null;
+        if (existing) {
+          results.push({ index, status: 'duplicate', id: existing.id });
+          return;
+        }
+
+        const outcome = this.tryLogCommand({ ...payload, idempotency_key: key, source: payload.source || 'replay' }, options);
+        results.push(outcome.id
+          ? { index, status: 'inserted', id: outcome.id }
+          : outcome.refused
+            ? { index, status: 'refused' }
+            : { index, status: 'rejected', error: 'Not logged (invalid payload or storage error)' });
+      });
+    })();
+
+    const inserted = results.filter(r => r.status === 'inserted').length;
+    logger.info(`Batch ingested: ${inserted}/${payloads.length} inserted`);
+
+    return results;
+  }
+
+  /**
+   * Record exit code, duration and end time for a started command
+   */
+  finishCommand(id: number, payload: CommandFinishPayload): Command | null {
+    try {
+      const exitCode = Number(payload.exit_code);
+      if (!Number.isInteger(exitCode)) {
+        logger.warn('Invalid finish payload - missing exit_code', { id, payload });
+        return null;
+      }
+
+      const command = dbClient.getCommand(id);
+      if (!command) {
+        logger.warn(`Cannot finish unknown command ${id}`);
+        return null;
+      }
+
+      const endedAt = payload.ended_at !== undefined ? Number(payload.ended_at) : Date.now();
+      if (!Number.isFinite(endedAt)) {
+        logger.warn('Invalid finish payload - ended_at is not a timestamp', { id, payload });
+        return null;
+      }
+
+      // Prefer the client-measured duration; fall back to server-side timing
+      const durationMs = payload.duration_ms !== undefined
+        ? Math.max(0, Math.round(Number(payload.duration_ms)))
+        : Math.max(0, endedAt - (command.created_at || endedAt));
+
+      if (!dbClient.finishCommand(id, exitCode, durationMs, endedAt)) {
+        logger.warn(`Command ${id} is already finished`);
+        return null;
+      }
+
+      logger.debug(`Command finished: ${id} (exit ${exitCode}, ${durationMs}ms)`);
+
+      return dbClient.getCommand(id);
+    } catch (error) {
+      logger.error('Failed to finish command', error);
+      return null;
+    }
+  }
+
+  /**
+   * Finish a command by the idempotency key its client generated, so hooks
+   * can send the start call in the background without waiting for an ID
+   */
+  finishCommandByKey(key: string, payload: CommandFinishPayload): Command | null {
+    const command = dbClient.getCommandByIdempotencyKey(String(key).substring(0, 256));
+    if (!command?.id) {
+      logger.warn(`Cannot finish unknown command key ${key}`);
       return null;
     }
+
+    return this.finishCommand(command.id, payload);
+  }
+
+  /**
+   * Mark commands that never reported a finish as abandoned
+   */
+  abandonStaleCommands(): number {
+    try {
+      const timeout = getConfig().commands.abandonTimeout;
+      const abandoned = dbClient.abandonStaleCommands(Date.now() - timeout);
+
+      if (abandoned > 0) {
+        logger.info(`Marked ${abandoned} unfinished command(s) as abandoned`);
+      }
+
+      return abandoned;
+    } catch (error) {
+      logger.error('Failed to abandon stale commands', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Re-apply the current redaction rules to every stored command
+   */
+  scrubStoredCommands(): { scanned: number; redacted: number; rules: Record<string, number> } {
+    const BATCH_SIZE = 1000;
+    const ruleCounts: Record<string, number> = {};
+    let scanned = 0;
+    let redacted = 0;
+    let lastId = 0;
+
+    secretRedactor.reload();
+
+    while (true) {
+      const batch = dbClient.getCommandsAfter(lastId, BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const updates: { id: number; cmd: string; redacted_rules: string }[] = [];
+
+      for (const command of batch) {
+        const result = secretRedactor.redact(command.cmd);
+        if (result.text === command.cmd) continue;
+
+        const previous = command.redacted_rules ? command.redacted_rules.split(',') : [];
+        const rules = [...new Set([...previous, ...result.rules])];
+
+        updates.push({ id: command.id!, cmd: result.text, redacted_rules: rules.join(',') });
+
+        for (const rule of result.rules) {
+          ruleCounts[rule] = (ruleCounts[rule] || 0) + 1;
+        }
+      }
+
+      if (updates.length > 0) {
+        dbClient.updateCommandRedaction(updates);
+      }
+
+      scanned += batch.length;
+      redacted += updates.length;
+      lastId = batch[batch.length - 1].id!;
+    }
+
+    logger.info(`Redaction scrub complete: ${redacted}/${scanned} commands updated`, ruleCounts);
+
+    if (redacted > 0) {
+      dbClient.insertEvent({
+        type: 'commands_redacted',
+        severity: 'info',
+        message: `Redacted secrets from ${redacted} stored command(s)`,
+        metadata: JSON.stringify({ scanned, redacted, rules: ruleCounts })
+      });
+    }
+
+    return { scanned, redacted, rules: ruleCounts };
+  }
+
+  /**
+   * Fill base_cmd/subcommand/programs for commands stored before they existed.
+   * With `all`, every command is re-parsed (e.g. after parser improvements).
+   */
+  normalizeStoredCommands(all: boolean = false): { scanned: number; updated: number } {
+    const BATCH_SIZE = 1000;
+    let scanned = 0;
+    let updated = 0;
+    let lastId = 0;
+
+    while (true) {
+      const batch = all
+        ? dbClient.getCommandsAfter(lastId, BATCH_SIZE)
+        : dbClient.getUnparsedCommands(lastId, BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const updates: { id: number; base_cmd: string | null; subcommand: string | null; programs: string }[] = [];
+
+      for (const command of batch) {
+        const parsed = shellParser.parse(command.cmd);
+        const programs = parsed.programs.join(',');
+
+        if (
+          command.programs === programs &&
+          (command.base_cmd ?? null) === parsed.base_cmd &&
+          (command.subcommand ?? null) === parsed.subcommand
+        ) {
+          continue;
+        }
+
+        updates.push({ id: command.id!, base_cmd: parsed.base_cmd, subcommand: parsed.subcommand, programs });
+      }
+
+      if (updates.length > 0) {
+        dbClient.updateCommandPrograms(updates);
+      }
+
+      scanned += batch.length;
+      updated += updates.length;
+      lastId = batch[batch.length - 1].id!;
+    }
+
+    if (updated > 0) {
+      logger.info(`Normalized program names for ${updated}/${scanned} commands`);
+    }
+
+    return { scanned, updated };
   }
 
   /**
@@ -66,26 +419,27 @@ export class CommandLogger {
       cwd: payload.cwd.replace(/\/$/, ''),
       // Ensure numeric types
       exit_code: payload.exit_code !== undefined ? Number(payload.exit_code) : undefined,
-      duration_ms: payload.duration_ms !== undefined ? Number(payload.duration_ms) : undefined
+      duration_ms: payload.duration_ms !== undefined ? Number(payload.duration_ms) : undefined,
+      shell_pid: payload.shell_pid !== undefined ? Number(payload.shell_pid) : undefined,
+      executed_at: this.parseExecutedAt(payload.executed_at),
+      idempotency_key: payload.idempotency_key ? String(payload.idempotency_key).substring(0, 256) : undefined
     };
   }
 
   /**
-   * Check if command is critical (sudo, rm -rf, etc.)
+   * Accept client timestamps in ms (or seconds, as shells report them); ignore future times
    */
-  private isCriticalCommand(cmd: string): boolean {
-    const criticalPatterns = [
-      /^sudo\s+rm/,
-      /rm\s+(-[rfRF]+|--recursive|--force)/,
-      /^sudo\s+systemctl/,
-      /^dd\s+if=/,
-      /mkfs\./,
-      /^sudo\s+chmod\s+777/,
-      /^chmod\s+-R\s+777/,
-      /> \/dev\/sd/
-    ];
+  private parseExecutedAt(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+
+    let timestamp = Number(value);
+    if (!Number.isFinite(timestamp) || timestamp <= 0) return undefined;
 
-    return criticalPatterns.some(pattern => pattern.test(cmd.trim()));
+    if (timestamp < 1e12) {
+      timestamp *= 1000;
+    }
+
+    return Math.min(Math.round(timestamp), Date.now());
   }
 
   /**
@@ -99,23 +453,94 @@ export class CommandLogger {
       'SELECT COUNT(*) as count FROM commands WHERE created_at > ?'
     ).get(Date.now() - 86400000) as { count: number };
 
-    const topCommands = db.prepare(`
-      SELECT 
-        SUBSTR(cmd, 1, INSTR(cmd || ' ', ' ') - 1) as base_cmd,
-        COUNT(*) as count
-      FROM commands
-      WHERE created_at > ?
-      GROUP BY base_cmd
-      ORDER BY count DESC
-      LIMIT 10
-    `).all(Date.now() - 604800000); // Last 7 days
+    const weekAgo = Date.now() - 604800000; // Last 7 days
+    const topCommands = this.getTopPrograms(weekAgo);
+    const topSubcommands = this.getTopSubcommands(weekAgo);
 
     return {
       total: totalCommands.count,
       today: todayCommands.count,
-      topCommands
+      topCommands,
+      topSubcommands
     };
   }
+
+  /**
+   * Most used programs since a timestamp, by normalized base command
+   */
+  getTopPrograms(since: number, limit: number = 10): { base_cmd: string; count: number }[] {
+    return dbClient.getDb().prepare(`
+      SELECT base_cmd, COUNT(*) as count
+      FROM commands
+      WHERE created_at > ? AND base_cmd IS NOT NULL
+      GROUP BY base_cmd
+      ORDER BY count DESC
+      LIMIT ?
+    `).all(since, limit) as { base_cmd: string; count: number }[];
+  }
+
+  /**
+   * Most used subcommands since a timestamp ("git commit", "docker compose up")
+   */
+  getTopSubcommands(since: number, limit: number = 10): { subcommand: string; count: number }[] {
+    return dbClient.getDb().prepare(`
+      SELECT subcommand, COUNT(*) as count
+      FROM commands
+      WHERE created_at > ? AND subcommand IS NOT NULL
+      GROUP BY subcommand
+      ORDER BY count DESC
+      LIMIT ?
+    `).all(since, limit) as { subcommand: string; count: number }[];
+  }
+
+  /**
+   * Per-project commands, failures and time spent, keyed on the repository
+   * root (or the project root outside git) so same-named checkouts stay apart.
+   * Active time is the gap to the user's next command (capped at ACTIVE_GAP_MS),
+   * falling back to the command's own duration before a longer pause.
+   */
+  getProjectReport(since: number, until: number = Date.now()) {
+    const db = dbClient.getDb();
+
+    const projects = db.prepare(`
+      WITH timeline AS (
+        SELECT
+          project,
+          COALESCE(repo_root, project_root) as root,
+          repo_root,
+          git_branch,
+          exit_code,
+          duration_ms,
+          created_at,
+          LEAD(created_at) OVER (PARTITION BY user ORDER BY created_at, id) - created_at as next_gap
+        FROM commands
+        WHERE created_at >= ? AND created_at <= ?
+      )
+      SELECT
+        root,
+        MAX(repo_root) as repo_root,
+        COUNT(*) as commands,
+        COUNT(DISTINCT git_branch) as branches,
+        SUM(CASE WHEN exit_code IS NOT NULL THEN 1 ELSE 0 END) as finished,
+        SUM(CASE WHEN exit_code IS NOT NULL AND exit_code != 0 THEN 1 ELSE 0 END) as failures,
+        SUM(COALESCE(duration_ms, 0)) as command_time_ms,
+        SUM(
+          CASE WHEN next_gap IS NOT NULL AND next_gap <= ? THEN next_gap
+          ELSE COALESCE(duration_ms, 0) END
+        ) as active_time_ms,
+        MAX(created_at) as last_active
+      FROM timeline
+      WHERE project IS NOT NULL AND root IS NOT NULL
+      GROUP BY root
+      ORDER BY active_time_ms DESC, commands DESC
+    `).all(since, until, this.ACTIVE_GAP_MS) as any[];
+
+    return projects.map(p => ({
+      project: basename(p.root) || p.root,
+      ...p,
+      failure_rate: p.finished > 0 ? Math.round((p.failures / p.finished) * 10000) / 100 : 0
+    }));
+  }
 }
 
 export const commandLogger = new CommandLogger();
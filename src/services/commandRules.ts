@@ -0,0 +1,168 @@
+import { dbClient } from '../db/client';
+import { logger } from '../utils/logger';
+import { getConfig, CommandRule, DEFAULT_COMMAND_RULES } from '../utils/config';
+import { shellParser, ParsedCommandLine } from '../utils/shellParser';
+
+export interface RuleMatch {
+  rule: string;
+  severity: CommandRule['severity'];
+  tags: string[];
+  actions: CommandRule['actions'];
+}
+
+export interface RuleEvaluation {
+  matches: RuleMatch[];
+  refused: boolean;
+}
+
+export interface RuleContext {
+  cwd: string;
+  user?: string;
+  session_id?: string | null;
+}
+
+/**
+ * Evaluates commands against the rules declared in config
+ */
+export class CommandRulesEngine {
+  private compiled = new Map<string, RegExp | null>();
+
+  /**
+   * Get all configured rules
+   */
+  getRules(): CommandRule[] {
+    return getConfig().rules;
+  }
+
+  /**
+   * Find every rule a command matches
+   */
+  evaluate(cmd: string, parsed: ParsedCommandLine = shellParser.parse(cmd)): RuleEvaluation {
+    const matches: RuleMatch[] = [];
+
+    for (const rule of this.getRules()) {
+      if (this.matches(rule, cmd, parsed)) {
+        matches.push({
+          rule: rule.name,
+          severity: rule.severity,
+          tags: rule.tags || [],
+          actions: rule.actions
+        });
+      }
+    }
+
+    return {
+      matches,
+      refused: matches.some(m => m.actions.includes('refuse'))
+    };
+  }
+
+  /**
+   * Run the event and webhook actions of matched rules
+   */
+  applyActions(cmd: string, evaluation: RuleEvaluation, context: RuleContext): void {
+    let criticalLogged = false;
+
+    for (const match of evaluation.matches) {
+      const rule = this.getRules().find(r => r.name === match.rule);
+
+      // Refused commands are never stored, so keep their text out of events too
+      const payload = {
+        rule: match.rule,
+        severity: match.severity,
+        tags: match.tags,
+        cmd: evaluation.refused ? undefined : cmd,
+        refused: evaluation.refused,
+        cwd: context.cwd,
+        user: context.user,
+        session_id: context.session_id
+      };
+
+      // The default rules replaced the old hard-coded critical patterns, so they
+      // keep raising a single command_critical event per command
+      const critical = DEFAULT_COMMAND_RULES.some(r => r.name === match.rule);
+
+      if (match.actions.includes('event') && critical) {
+        if (!criticalLogged) {
+          criticalLogged = true;
+          dbClient.insertEvent({
+            type: 'command_critical',
+            severity: match.severity,
+            message: evaluation.refused
+              ? `Critical command refused by rule ${match.rule}`
+              : `Critical command executed: ${cmd}`,
+            metadata: JSON.stringify(payload)
+          });
+        }
+      } else if (match.actions.includes('event')) {
+        dbClient.insertEvent({
+          type: 'command_rule_matched',
+          severity: match.severity,
+          message: evaluation.refused
+            ? `Command refused by rule ${match.rule}`
+            : `Command matched rule ${match.rule}: ${cmd}`,
+          metadata: JSON.stringify(payload)
+        });
+      }
+
+      if (match.actions.includes('webhook')) {
+        const webhookUrl = rule?.webhook || process.env.COMMAND_RULE_WEBHOOK;
+        if (webhookUrl) {
+          fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              event: 'command_rule_matched',
+              ...payload,
+              timestamp: new Date().toISOString()
+            })
+          }).catch(() => { });
+        } else {
+          logger.debug(`Rule ${match.rule} has a webhook action but no webhook URL`);
+        }
+      }
+    }
+  }
+
+  private matches(rule: CommandRule, cmd: string, parsed: ParsedCommandLine): boolean {
+    const trimmed = cmd.trim();
+
+    if (rule.pattern) {
+      const regex = this.getRegex(rule);
+      if (!regex) return false;
+
+      regex.lastIndex = 0;
+      if (!regex.test(trimmed)) return false;
+    }
+
+    if (rule.argv0) {
+      // Any simple command in the line counts, after unwrapping sudo/env/etc.
+      // Every listed argument must be present ("--force" also matches "--force=true")
+      const required = rule.args || [];
+      const matched = parsed.commands.some(command =>
+        command.program === rule.argv0 &&
+        required.every(flag => command.args.some(a => a === flag || a.startsWith(flag + '=')))
+      );
+      if (!matched) return false;
+    }
+
+    return Boolean(rule.pattern || rule.argv0);
+  }
+
+  private getRegex(rule: CommandRule): RegExp | null {
+    const key = `${rule.name}\u0000${rule.pattern}\u0000${rule.flags || ''}`;
+
+    if (!this.compiled.has(key)) {
+      try {
+        this.compiled.set(key, new RegExp(rule.pattern!, rule.flags));
+      } catch (error) {
+        logger.error(`Invalid pattern in rule "${rule.name}"`, error);
+        this.compiled.set(key, null);
+      }
+    }
+
+    return this.compiled.get(key) ?? null;
+  }
+}
+
+export const commandRules = new CommandRulesEngine();
@@ -0,0 +1,160 @@
+import { dirname } from 'path';
+import { diskParser, FilesystemUsage, DiskIO } from '../system/diskParser';
+import { dbClient } from '../db/client';
+import { logger } from '../utils/logger';
+import { getConfig, DiskThreshold } from '../utils/config';
+
+export interface FilesystemStatus extends FilesystemUsage {
+  is_database_volume: boolean;
+  threshold: DiskThreshold | null;
+  low: boolean;
+}
+
+export interface DiskReading {
+  timestamp: number;
+  filesystems: FilesystemStatus[];
+  io: DiskIO[];
+}
+
+/**
+ * Periodically records filesystem usage and disk I/O, and raises
+ * `disk_space_low` events when a mount crosses its threshold
+ */
+export class DiskMonitor {
+  private intervalId: Timer | null = null;
+  private isRunning: boolean = false;
+  private lastReading: DiskReading | null = null;
+  private lowMounts = new Set<string>(); // Mounts currently alerted, so events fire once per episode
+
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Disk monitor is already running');
+      return;
+    }
+
+    const interval = getConfig().disk.monitorInterval;
+    if (interval <= 0) {
+      logger.info('Disk monitor disabled (disk.monitorInterval = 0)');
+      return;
+    }
+
+    logger.info(`Starting disk monitor (interval: ${interval}ms)`);
+
+    this.collect();
+
+    this.intervalId = setInterval(() => {
+      this.collect();
+    }, interval);
+
+    this.isRunning = true;
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+  }
+
+  /**
+   * Read every filesystem and block device, store the results and check thresholds
+   */
+  collect(): DiskReading | null {
+    try {
+      const timestamp = Date.now();
+
+      // Always include the volume holding the tracker's own database
+      const dbMount = diskParser.findMountFor(dirname(getConfig().database.path));
+      const mounts = diskParser.getMounts(dbMount ? [dbMount] : []);
+
+      const filesystems: FilesystemStatus[] = [];
+      for (const mount of mounts) {
+        const usage = diskParser.getUsage(mount);
+        if (!usage || usage.total_mb === 0) continue;
+
+        const threshold = this.getThreshold(usage);
+        filesystems.push({
+          ...usage,
+          is_database_volume: usage.mount === dbMount,
+          threshold,
+          low: threshold !== null && this.isLow(usage, threshold)
+        });
+      }
+
+      const io = diskParser.getDiskIO();
+
+      dbClient.insertDiskStats(filesystems, io, timestamp);
+
+      this.lastReading = { timestamp, filesystems, io };
+      this.checkThresholds(filesystems);
+
+      return this.lastReading;
+    } catch (error) {
+      logger.error('Failed to collect disk stats', error);
+      return null;
+    }
+  }
+
+  getCurrent(): DiskReading | null {
+    return this.lastReading;
+  }
+
+  getHistory(since: number, until: number, options: { mount?: string; device?: string; limit?: number } = {}) {
+    return {
+      filesystems: dbClient.getDiskStats(since, until, options.mount, options.limit),
+      io: dbClient.getDiskIOStats(since, until, options.device, options.limit)
+    };
+  }
+
+  /**
+   * Per-mount threshold from config, falling back to the default percentage.
+   * Read-only mounts can't fill up, so they are only checked when configured.
+   */
+  private getThreshold(usage: FilesystemUsage): DiskThreshold | null {
+    const config = getConfig().disk;
+    const configured = config.thresholds.find(t => t.mount === usage.mount);
+
+    if (configured) return configured;
+    if (usage.read_only) return null;
+
+    return { mount: usage.mount, percent: config.defaultThreshold };
+  }
+
+  private isLow(usage: FilesystemUsage, threshold: DiskThreshold): boolean {
+    if (threshold.percent !== undefined && usage.percent > threshold.percent) return true;
+    if (threshold.minFreeMB !== undefined && usage.available_mb < threshold.minFreeMB) return true;
+    return false;
+  }
+
+  private checkThresholds(filesystems: FilesystemStatus[]): void {
+    for (const fs of filesystems) {
+      if (fs.low && !this.lowMounts.has(fs.mount)) {
+        this.lowMounts.add(fs.mount);
+
+        logger.warn(`💾 Disk space low on ${fs.mount}: ${fs.percent}% used, ${fs.available_mb}MB available`);
+
+        dbClient.insertEvent({
+          type: 'disk_space_low',
+          severity: 'warning',
+          message: `Disk space low on ${fs.mount}: ${fs.percent}% used, ${Math.round(fs.available_mb)}MB available`,
+          metadata: JSON.stringify({
+            mount: fs.mount,
+            device: fs.device,
+            percent: fs.percent,
+            available_mb: fs.available_mb,
+            total_mb: fs.total_mb,
+            threshold: fs.threshold,
+            is_database_volume: fs.is_database_volume
+          })
+        });
+      } else if (!fs.low && this.lowMounts.has(fs.mount)) {
+        this.lowMounts.delete(fs.mount);
+        logger.info(`✅ Disk space on ${fs.mount} back above threshold (${fs.percent}% used)`);
+      }
+    }
+  }
+}
+
+export const diskMonitor = new DiskMonitor();
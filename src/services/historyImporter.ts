@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { dbClient } from '../db/client';
+import { logger } from '../utils/logger';
+import { commandLogger, CommandPayload } from './commandLogger';
+import { secretRedactor } from './secretRedactor';
+
+export type HistoryFormat = 'bash' | 'zsh';
+
+export interface HistoryEntry {
+  cmd: string;
+  timestamp: number | null; // ms
+  duration_ms?: number;
+}
+
+export interface HistoryImportOptions {
+  format?: HistoryFormat | 'auto';
+  user?: string;
+  hostname?: string;
+  cwd?: string;
+}
+
+export interface HistoryImportResult {
+  format: HistoryFormat;
+  parsed: number;
+  inserted: number;
+  duplicates: number;
+  skipped_untimed: number;
+  rejected: number;
+}
+
+// Live-logged commands are stored within a couple of seconds of the history timestamp
+const LIVE_DEDUPE_TOLERANCE_MS = 2000;
+const BATCH_SIZE = 1000;
+
+/**
+ * Imports ~/.bash_history and zsh extended history files
+ */
+export class HistoryImporter {
+  /**
+   * Parse a history file and store its timestamped entries
+   */
+  import(content: string, options: HistoryImportOptions = {}): HistoryImportResult {
+    const format = !options.format || options.format === 'auto'
+      ? this.detectFormat(content)
+      : options.format;
+
+    const entries = format === 'zsh'
+      ? this.parseZshHistory(content)
+      : this.parseBashHistory(content);
+
+    const user = options.user || process.env.USER || 'unknown';
+    const source = `${format}_history`;
+
+    const result: HistoryImportResult = {
+      format,
+      parsed: entries.length,
+      inserted: 0,
+      duplicates: 0,
+      skipped_untimed: 0,
+      rejected: 0
+    };
+
+    const payloads: CommandPayload[] = [];
+
+    for (const entry of entries) {
+      // Without a timestamp there is no way to place the command in time
+      if (entry.timestamp === null) {
+        result.skipped_untimed++;
+        continue;
+      }
+
+      // Skip commands the shell hook already logged live
+      const redacted = secretRedactor.redact(entry.cmd).text;
+      if (dbClient.hasCommandNear(user, redacted, entry.timestamp, LIVE_DEDUPE_TOLERANCE_MS)) {
+        result.duplicates++;
+        continue;
+      }
+
+      payloads.push({
+        cmd: entry.cmd,
+        cwd: options.cwd || '~',
+        user,
+        hostname: options.hostname,
+        shell: format,
+        duration_ms: entry.duration_ms,
+        executed_at: entry.timestamp,
+        idempotency_key: this.idempotencyKey(user, entry),
+        source
+      });
+    }
+
+    for (let i = 0; i < payloads.length; i += BATCH_SIZE) {
+      const results = commandLogger.logBatch(payloads.slice(i, i + BATCH_SIZE), { ruleActions: false });
+
+      for (const r of results) {
+        if (r.status === 'inserted') result.inserted++;
+        else if (r.status === 'duplicate') result.duplicates++;
+        else result.rejected++;
+      }
+    }
+
+    logger.info(`History import (${format}): ${result.inserted}/${result.parsed} entries inserted`);
+
+    if (result.inserted > 0) {
+      dbClient.insertEvent({
+        type: 'history_imported',
+        severity: 'info',
+        message: `Imported ${result.inserted} commands from ${format} history`,
+        metadata: JSON.stringify({ ...result, user, hostname: options.hostname })
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * zsh extended history lines start with ": <epoch>:<elapsed>;"
+   */
+  detectFormat(content: string): HistoryFormat {
+    return /^: \d+:\d+;/m.test(content) ? 'zsh' : 'bash';
+  }
+
+  /**
+   * Parse bash history. With HISTTIMEFORMAT set, each entry is preceded by
+   * a "#<epoch>" line and everything up to the next one belongs to it
+   * (multi-line commands saved with lithist). Without timestamps every line
+   * is its own entry.
+   */
+  parseBashHistory(content: string): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+    let current: HistoryEntry | null = null;
+
+    for (const line of content.split('\n')) {
+      const stamp = line.match(/^#(\d{9,11})\s*$/);
+
+      if (stamp) {
+        if (current && current.cmd) entries.push(current);
+        current = { cmd: '', timestamp: parseInt(stamp[1], 10) * 1000 };
+        continue;
+      }
+
+      if (current) {
+        current.cmd = current.cmd ? `${current.cmd}\n${line}` : line;
+      } else if (line.trim()) {
+        entries.push({ cmd: line, timestamp: null });
+      }
+    }
+
+    if (current && current.cmd) entries.push(current);
+
+    return entries
+      .map(e => ({ ...e, cmd: e.cmd.replace(/\n+$/, '') }))
+      .filter(e => e.cmd.trim());
+  }
+
+  /**
+   * Parse zsh history (extended ": <epoch>:<elapsed>;cmd" or plain).
+   * Embedded newlines are stored as a trailing backslash.
+   */
+  parseZshHistory(content: string): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+    let current: HistoryEntry | null = null;
+    let continues = false;
+
+    for (const line of content.split('\n')) {
+      if (current && continues) {
+        continues = line.endsWith('\\');
+        current.cmd += '\n' + (continues ? line.slice(0, -1) : line);
+        continue;
+      }
+
+      if (current) entries.push(current);
+      current = null;
+
+      if (!line.trim()) continue;
+
+      const extended = line.match(/^: (\d+):(\d+);(.*)$/);
+      const cmd = extended ? extended[3] : line;
+
+      continues = cmd.endsWith('\\');
+      current = {
+        cmd: continues ? cmd.slice(0, -1) : cmd,
+        timestamp: extended ? parseInt(extended[1], 10) * 1000 : null,
+        duration_ms: extended ? parseInt(extended[2], 10) * 1000 : undefined
+      };
+    }
+
+    if (current) entries.push(current);
+
+    return entries.filter(e => e.cmd.trim());
+  }
+
+  /**
+   * Undo zsh "metafication" (0x83 marks a byte XOR'd with 32) before decoding
+   */
+  unmetafy(buffer: Buffer): string {
+    const out = Buffer.alloc(buffer.length);
+    let length = 0;
+
+    for (let i = 0; i < buffer.length; i++) {
+      if (buffer[i] === 0x83 && i + 1 < buffer.length) {
+        out[length++] = buffer[++i] ^ 32;
+      } else {
+        out[length++] = buffer[i];
+      }
+    }
+
+    return out.subarray(0, length).toString('utf-8');
+  }
+
+  private idempotencyKey(user: string, entry: HistoryEntry): string {
+    const hash = createHash('sha1').update(entry.cmd).digest('hex').substring(0, 16);
+    return `import:${user}:${entry.timestamp}:${hash}`;
+  }
+}
+
+export const historyImporter = new HistoryImporter();
@@ -0,0 +1,178 @@
+import { dbClient } from '../db/client';
+import { logger } from '../utils/logger';
+import { getConfig } from '../utils/config';
+import { ProcessInfo } from '../system/processScanner';
+
+interface RssPoint {
+  timestamp: number;
+  rss_mb: number;
+}
+
+interface TrackedProcess {
+  key: string;
+  pid: number;
+  name: string;
+  start_time: number | null;
+  points: RssPoint[];
+  suspected_since: number | null;
+}
+
+export interface LeakTrend {
+  pid: number;
+  name: string;
+  start_time: number | null;        // ms since epoch
+  rss_mb: number;
+  growth_mb_per_hour: number;
+  r2: number;
+  observed_minutes: number;
+  samples: number;
+  projected_mb: number;             // Size after config.leaks.projectionHours at the current rate
+  projection_hours: number;
+  suspected: boolean;
+  suspected_since: number | null;
+}
+
+// Fewer points than this can't tell a trend from noise
+const MIN_POINTS = 5;
+
+/**
+ * Tracks RSS per process (pid + start time, so PID reuse starts a new series)
+ * over a sliding window and flags sustained linear growth
+ */
+export class LeakDetector {
+  private tracked = new Map<string, TrackedProcess>();
+
+  /**
+   * Add one sample of processes and re-evaluate their trends
+   */
+  observe(processes: ProcessInfo[], timestamp: number = Date.now()): void {
+    const config = getConfig().leaks;
+    if (!config.enabled) return;
+
+    const windowMs = config.windowMinutes * 60 * 1000;
+
+    for (const proc of processes) {
+      const startTime = proc.start_time || null;
+      const key = `${proc.pid}:${startTime ?? 'unknown'}`;
+
+      let entry = this.tracked.get(key);
+      if (!entry) {
+        entry = { key, pid: proc.pid, name: proc.command, start_time: startTime, points: [], suspected_since: null };
+        this.tracked.set(key, entry);
+      }
+
+      entry.points.push({ timestamp, rss_mb: proc.rss_kb / 1024 });
+      entry.points = entry.points.filter(p => p.timestamp >= timestamp - windowMs);
+
+      this.evaluate(entry, timestamp);
+    }
+
+    // Forget processes that exited or haven't been sampled for a whole window
+    for (const [key, entry] of this.tracked) {
+      const last = entry.points[entry.points.length - 1];
+      if (!last || last.timestamp < timestamp - windowMs) {
+        this.tracked.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Current suspects, or every tracked trend with `all`, fastest growth first
+   */
+  getLeaks(all: boolean = false): LeakTrend[] {
+    const trends: LeakTrend[] = [];
+
+    for (const entry of this.tracked.values()) {
+      const trend = this.toTrend(entry);
+      if (trend && (all || trend.suspected)) {
+        trends.push(trend);
+      }
+    }
+
+    return trends.sort((a, b) => b.growth_mb_per_hour - a.growth_mb_per_hour);
+  }
+
+  private evaluate(entry: TrackedProcess, timestamp: number): void {
+    const config = getConfig().leaks;
+    const trend = this.toTrend(entry);
+    if (!trend) return;
+
+    const leaking =
+      trend.observed_minutes >= config.minDurationMinutes &&
+      trend.growth_mb_per_hour >= config.minGrowthMBPerHour &&
+      trend.r2 >= config.minR2;
+
+    if (leaking && entry.suspected_since === null) {
+      entry.suspected_since = timestamp;
+      trend.suspected = true;
+      trend.suspected_since = timestamp;
+
+      logger.warn(
+        `💧 Memory leak suspected: ${entry.name} (${entry.pid}) growing ` +
+        `${trend.growth_mb_per_hour}MB/h, now ${trend.rss_mb}MB`
+      );
+
+      dbClient.insertEvent({
+        type: 'memory_leak_suspected',
+        severity: 'warning',
+        message: `Memory leak suspected in ${entry.name} (PID ${entry.pid}): +${trend.growth_mb_per_hour}MB/h, ${trend.rss_mb}MB now`,
+        metadata: JSON.stringify(trend)
+      });
+    } else if (!leaking && entry.suspected_since !== null) {
+      logger.info(`Memory growth of ${entry.name} (${entry.pid}) no longer looks like a leak`);
+      entry.suspected_since = null;
+    }
+  }
+
+  /**
+   * Least-squares fit of RSS (MB) against time (hours)
+   */
+  private toTrend(entry: TrackedProcess): LeakTrend | null {
+    const points = entry.points;
+    if (points.length < MIN_POINTS) return null;
+
+    const t0 = points[0].timestamp;
+    const xs = points.map(p => (p.timestamp - t0) / 3600000);
+    const ys = points.map(p => p.rss_mb);
+    const n = points.length;
+
+    const meanX = xs.reduce((a, b) => a + b, 0) / n;
+    const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (let i = 0; i < n; i++) {
+      sxx += (xs[i] - meanX) ** 2;
+      sxy += (xs[i] - meanX) * (ys[i] - meanY);
+      syy += (ys[i] - meanY) ** 2;
+    }
+
+    if (sxx === 0) return null;
+
+    const slope = sxy / sxx;
+    // A perfectly flat series has no variance to explain
+    const r2 = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+
+    const config = getConfig().leaks;
+    const current = ys[n - 1];
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      pid: entry.pid,
+      name: entry.name,
+      start_time: entry.start_time,
+      rss_mb: round(current),
+      growth_mb_per_hour: round(slope),
+      r2: round(r2),
+      observed_minutes: round((points[n - 1].timestamp - t0) / 60000),
+      samples: n,
+      projected_mb: round(Math.max(0, current + slope * config.projectionHours)),
+      projection_hours: config.projectionHours,
+      suspected: entry.suspected_since !== null,
+      suspected_since: entry.suspected_since
+    };
+  }
+}
+
+export const leakDetector = new LeakDetector();
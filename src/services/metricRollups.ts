@@ -0,0 +1,302 @@
+import { dbClient } from '../db/client';
+import { MetricRollup } from '../db/schema';
+import { logger } from '../utils/logger';
+import { getConfig, RollupResolution } from '../utils/config';
+
+export type Resolution = 'raw' | RollupResolution;
+
+export interface RollupValue {
+  avg: number;
+  min: number;
+  max: number;
+}
+
+export interface BucketedSeries {
+  resolution: Resolution;              // Data the buckets were built from
+  step: number;                        // Bucket width in ms
+  points: RollupPoint[];
+}
+
+export interface RollupPoint {
+  timestamp: number;                   // Bucket start
+  samples: number;                     // Raw rows behind the bucket
+  [metric: string]: RollupValue | number;
+}
+
+interface RollupSource {
+  metric: string;
+  table: 'system_stats' | 'cpu_stats';
+  column: string;
+}
+
+// Raw columns that are downsampled into metric_rollups
+export const ROLLUP_SOURCES: RollupSource[] = [
+  { metric: 'ram_percent', table: 'system_stats', column: 'ram_percent' },
+  { metric: 'ram_used_mb', table: 'system_stats', column: 'ram_used_mb' },
+  { metric: 'ram_available_mb', table: 'system_stats', column: 'ram_available_mb' },
+  { metric: 'buffers_mb', table: 'system_stats', column: 'buffers_mb' },
+  { metric: 'cached_mb', table: 'system_stats', column: 'cached_mb' },
+  { metric: 'swap_used_mb', table: 'system_stats', column: 'swap_used_mb' },
+  { metric: 'swap_in_per_sec', table: 'system_stats', column: 'swap_in_per_sec' },
+  { metric: 'swap_out_per_sec', table: 'system_stats', column: 'swap_out_per_sec' },
+  { metric: 'load1', table: 'system_stats', column: 'load1' },
+  { metric: 'load5', table: 'system_stats', column: 'load5' },
+  { metric: 'load15', table: 'system_stats', column: 'load15' },
+  { metric: 'psi_some_avg10', table: 'system_stats', column: 'psi_some_avg10' },
+  { metric: 'psi_full_avg10', table: 'system_stats', column: 'psi_full_avg10' },
+  { metric: 'cpu_percent', table: 'cpu_stats', column: 'percent' },
+  { metric: 'cpu_iowait', table: 'cpu_stats', column: 'iowait_percent' }
+];
+
+export const RESOLUTION_MS: Record<RollupResolution, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+// Each resolution is built from the next finer one
+const ROLLUP_CHAIN: [RollupResolution, RollupResolution][] = [['1h', '1m'], ['1d', '1h']];
+
+// Already-built buckets rewritten on every run, for rows stored after their
+// bucket was built (a tick straddling the run, a late insert)
+const REBUILD_BUCKETS = 2;
+
+// Most points a history query should return before a coarser resolution is used
+const MAX_POINTS = 1500;
+
+// Most stored rows per metric a bucketed query reads before a coarser source is used
+const MAX_SOURCE_ROWS = 20000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Downsamples per-tick system and CPU stats into 1m/1h/1d buckets
+ * (avg/min/max) and prunes each resolution by its own retention
+ */
+export class MetricRollups {
+  private intervalId: Timer | null = null;
+  private isRunning: boolean = false;
+
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Metric rollups are already running');
+      return;
+    }
+
+    const interval = getConfig().rollups.interval;
+    if (interval <= 0) {
+      logger.info('Metric rollups disabled (rollups.interval = 0)');
+      return;
+    }
+
+    logger.info(`Starting metric rollups (interval: ${interval}ms)`);
+
+    this.run();
+
+    this.intervalId = setInterval(() => {
+      this.run();
+    }, interval);
+
+    this.isRunning = true;
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+  }
+
+  /**
+   * Build every bucket completed since the last run, then apply retention.
+   * Only whole buckets are written; the last REBUILD_BUCKETS built ones are
+   * rewritten to take in rows that arrived late. Returns new buckets only.
+   */
+  run(now: number = Date.now()): number {
+    try {
+      let built = 0;
+
+      for (const resolution of ['1m', ...ROLLUP_CHAIN.map(([r]) => r)] as RollupResolution[]) {
+        const next = this.nextBucket(resolution);
+        const end = this.bucketStart(now, resolution);
+
+        if (next > 0) {
+          this.build(resolution, next - REBUILD_BUCKETS * RESOLUTION_MS[resolution], Math.min(next, end));
+        }
+        built += this.build(resolution, next, end);
+      }
+
+      const pruned = this.prune(now);
+
+      if (built > 0 || pruned > 0) {
+        logger.debug(`Metric rollups: ${built} buckets built, ${pruned} rows pruned`);
+      }
+
+      return built;
+    } catch (error) {
+      logger.error('Failed to build metric rollups', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Finest resolution that still holds data for `since` and returns at most
+   * `maxPoints` points over the range
+   */
+  pickResolution(since: number, until: number, maxPoints: number = MAX_POINTS, now: number = Date.now()): Resolution {
+    const resolutions: Resolution[] = ['raw', '1m', '1h', '1d'];
+
+    for (const resolution of resolutions) {
+      if (this.isCovered(resolution, since, now) && (until - since) / this.stepOf(resolution) <= maxPoints) {
+        return resolution;
+      }
+    }
+
+    return '1d';
+  }
+
+  /**
+   * Metrics bucketed into `step`-wide avg/min/max buckets, built from the
+   * finest stored resolution that covers the range without reading more
+   * than MAX_SOURCE_ROWS per metric. The step is widened to at most
+   * `maxPoints` buckets and, for rollups, to whole source buckets.
+   */
+  getBucketedSeries(
+    metrics: string[],
+    since: number,
+    until: number,
+    step?: number,
+    maxPoints: number = MAX_POINTS,
+    now: number = Date.now()
+  ): BucketedSeries {
+    const resolutions: Resolution[] = ['raw', '1m', '1h', '1d'];
+    const covering = resolutions.filter(r => this.isCovered(r, since, now));
+    const range = until - since;
+
+    let stepMs = Math.max(step ?? 0, Math.ceil(range / maxPoints), this.stepOf(covering[0] ?? '1d'));
+
+    const resolution = covering.find(r => range / this.stepOf(r) <= MAX_SOURCE_ROWS && this.stepOf(r) <= stepMs)
+      ?? covering[covering.length - 1] ?? '1d';
+    if (resolution !== 'raw') {
+      stepMs = Math.ceil(stepMs / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+    }
+
+    const rows = resolution === 'raw'
+      ? metrics.flatMap(metric => {
+        const source = ROLLUP_SOURCES.find(s => s.metric === metric);
+        if (!source) throw new Error(`Unknown rollup metric: ${metric}`);
+        return dbClient.getRawBuckets(source.table, source.column, metric, since, until, stepMs);
+      })
+      : dbClient.getRollupBuckets(resolution, metrics, since, until, stepMs);
+
+    return { resolution, step: stepMs, points: this.toPoints(rows) };
+  }
+
+  /**
+   * Bucketed avg/min/max of some metrics, one point per bucket
+   */
+  getSeries(metrics: string[], since: number, until: number, resolution: RollupResolution): RollupPoint[] {
+    return this.toPoints(dbClient.getRollups(resolution, metrics, since, until));
+  }
+
+  /**
+   * One point per bucket with every metric's avg/min/max, oldest first
+   */
+  private toPoints(rollups: MetricRollup[]): RollupPoint[] {
+    const points = new Map<number, RollupPoint>();
+
+    for (const rollup of rollups) {
+      let point = points.get(rollup.bucket_start);
+      if (!point) {
+        point = { timestamp: rollup.bucket_start, samples: 0 };
+        points.set(rollup.bucket_start, point);
+      }
+
+      point[rollup.metric] = {
+        avg: Math.round(rollup.avg * 100) / 100,
+        min: Math.round(rollup.min * 100) / 100,
+        max: Math.round(rollup.max * 100) / 100
+      };
+      point.samples = Math.max(point.samples, rollup.samples);
+    }
+
+    return [...points.values()].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * avg/min/max of one metric over a range, from the finest resolution that covers it
+   */
+  getSummary(metric: string, since: number, until: number = Date.now()) {
+    const resolution = this.pickResolution(since, until, Infinity);
+    const source = ROLLUP_SOURCES.find(s => s.metric === metric);
+    if (!source) throw new Error(`Unknown rollup metric: ${metric}`);
+
+    const summary = resolution === 'raw'
+      ? dbClient.getRawSummary(source.table, source.column, since, until)
+      : dbClient.getRollupSummary(resolution, metric, since, until);
+
+    return { ...summary, resolution };
+  }
+
+  private prune(now: number): number {
+    const retention = getConfig().rollups.retentionDays;
+    let pruned = 0;
+
+    if (retention.raw > 0) {
+      pruned += dbClient.pruneRawStats(now - retention.raw * DAY_MS);
+    }
+
+    for (const resolution of Object.keys(RESOLUTION_MS) as RollupResolution[]) {
+      if (retention[resolution] > 0) {
+        pruned += dbClient.pruneRollups(resolution, now - retention[resolution] * DAY_MS);
+      }
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Whether a resolution's retention still holds data from `since`
+   */
+  private isCovered(resolution: Resolution, since: number, now: number): boolean {
+    const retentionDays = getConfig().rollups.retentionDays[resolution];
+    return retentionDays <= 0 || since >= now - retentionDays * DAY_MS;
+  }
+
+  private stepOf(resolution: Resolution): number {
+    return resolution === 'raw' ? getConfig().ram.monitorInterval : RESOLUTION_MS[resolution];
+  }
+
+  private bucketStart(timestamp: number, resolution: RollupResolution): number {
+    return Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+  }
+
+  /**
+   * Write the buckets in [start, end): 1m from raw rows, coarser ones from
+   * the next finer resolution. Returns rows written.
+   */
+  private build(resolution: RollupResolution, start: number, end: number): number {
+    if (end <= start) return 0;
+
+    if (resolution === '1m') {
+      return ROLLUP_SOURCES.reduce((written, source) => written + dbClient.rollupRaw(
+        source.table, source.column, source.metric, '1m', RESOLUTION_MS['1m'], start, end
+      ), 0);
+    }
+
+    const [, from] = ROLLUP_CHAIN.find(([r]) => r === resolution)!;
+    return dbClient.rollupFrom(from, resolution, RESOLUTION_MS[resolution], start, end);
+  }
+
+  /**
+   * First bucket not built yet (everything, on the first run)
+   */
+  private nextBucket(resolution: RollupResolution): number {
+    const latest = dbClient.getLatestRollupBucket(resolution);
+    return latest === null ? 0 : latest + RESOLUTION_MS[resolution];
+  }
+}
+
+export const metricRollups = new MetricRollups();
@@ -1,8 +1,9 @@
 import { processScanner } from '../system/processScanner';
-import { processKiller, KillResult } from '../system/processKiller';
+import { processKiller, KillResult, GroupKillResult } from '../system/processKiller';
+import { appGrouper, AppGroup } from '../system/appGrouper';
 import { dbClient } from '../db/client';
 import { logger } from '../utils/logger';
-import { getConfig } from '../utils/config';
+import { getConfig, KillTarget } from '../utils/config';
 
 export class ProcessManager {
   /**
@@ -18,6 +19,10 @@ export class ProcessManager {
 
     logger.warn(`🔥 Handling high RAM situation: ${ramPercent}%`);
 
+    if (config.processes.killTarget === 'app') {
+      return this.handleHighRAMByApp(ramPercent);
+    }
+
     // Get killable processes
     const killable = processScanner.getKillableProcesses();
 
@@ -76,6 +81,93 @@ export class ProcessManager {
     return [result];
   }
 
+  /**
+   * Kill the application group with the most unique memory
+   */
+  private async handleHighRAMByApp(ramPercent: number): Promise<KillResult[]> {
+    const apps = appGrouper.getKillableApps();
+
+    if (apps.length === 0) {
+      logger.warn('No killable applications found');
+
+      dbClient.insertEvent({
+        type: 'ram_recovery_failed',
+        severity: 'error',
+        message: 'No killable applications available',
+        metadata: JSON.stringify({ ram_percent: ramPercent })
+      });
+
+      return [];
+    }
+
+    const target = apps[0];
+    logger.warn(
+      `🎯 Target selected: ${target.name} (root PID ${target.root_pid}, ${target.process_count} processes) ` +
+      `using ${target.unique_mb}MB unique, ${target.memory_mb}MB RSS`
+    );
+
+    const result = await this.killApp(target, `High RAM usage: ${ramPercent}%`);
+    return result.results;
+  }
+
+  /**
+   * Kill the application group a PID belongs to
+   */
+  async killAppByPid(pid: number, reason: string): Promise<GroupKillResult | { error: string }> {
+    const app = appGrouper.getApp(pid);
+
+    if (!app) {
+      logger.error(`Cannot kill application of PID ${pid}: process not found or not owned by current user`);
+      return { error: 'Process not found or not owned by current user' };
+    }
+
+    // Manual kills skip the size filter, not the safety ones
+    if (app.blocked_by) {
+      logger.error(`Cannot kill application ${app.name} (${app.root_pid}): ${app.blocked_by}`);
+      return { error: `Application is not killable: ${app.blocked_by}` };
+    }
+
+    return this.killApp(app, reason);
+  }
+
+  /**
+   * Kill a group, then log every member and one event for the application
+   */
+  private async killApp(app: AppGroup, reason: string): Promise<GroupKillResult> {
+    const result = await processKiller.killGroup(app, reason);
+
+    for (const member of result.results) {
+      dbClient.insertKilledProcess({
+        pid: member.pid,
+        name: app.processes.find(p => p.pid === member.pid)?.command ?? app.name,
+        memory_mb: member.memory_freed_mb,
+        signal: member.signal,
+        reason: `${reason} (application ${app.name}, root PID ${app.root_pid})`,
+        success: member.success ? 1 : 0
+      });
+    }
+
+    dbClient.insertEvent({
+      type: 'app_killed',
+      severity: result.success ? 'warning' : 'error',
+      message: result.success
+        ? `Killed application ${app.name} (${result.results.length} processes) to free ${result.memory_freed_mb}MB`
+        : `Failed to kill application ${app.name} (root PID ${app.root_pid})`,
+      metadata: JSON.stringify({
+        root_pid: app.root_pid,
+        name: app.name,
+        exe: app.exe,
+        pids: result.results.map(r => r.pid),
+        memory_mb: result.memory_freed_mb,
+        signal: result.signal,
+        attempts: result.attempts,
+        error: result.error
+      })
+    });
+
+    return result;
+  }
+
   /**
    * Kill a specific process by PID
    */
@@ -105,11 +197,22 @@ export class ProcessManager {
   }
 
   /**
-   * Get dry-run preview of what would be killed
+   * Get dry-run preview of what would be killed. With the app target,
+   * `targets` lists every process the chosen groups would signal.
    */
-  getDryRun(maxKills: number = 1) {
+  getDryRun(maxKills: number = 1, target: KillTarget = getConfig().processes.killTarget) {
+    if (target === 'app') {
+      const dryRun = processKiller.dryRunGroups(appGrouper.getKillableApps(), maxKills);
+      return {
+        target,
+        targets: dryRun.targets.flatMap(app => app.processes),
+        apps: dryRun.targets,
+        estimated_memory_mb: dryRun.estimated_memory_mb
+      };
+    }
+
     const killable = processScanner.getKillableProcesses();
-    return processKiller.dryRun(killable, maxKills);
+    return { target, ...processKiller.dryRun(killable, maxKills) };
   }
 
   /**
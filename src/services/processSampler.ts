@@ -0,0 +1,104 @@
+import { dbClient } from '../db/client';
+import { logger } from '../utils/logger';
+import { getConfig } from '../utils/config';
+import { processScanner } from '../system/processScanner';
+import { leakDetector } from './leakDetector';
+
+/**
+ * Records the largest processes on the RAM monitor tick so memory
+ * spikes can be traced back to the process that grew
+ */
+export class ProcessSampler {
+  private lastSampleTime = 0;
+  private lastSamplePrune = 0;
+  private readonly SAMPLE_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Prune old samples hourly
+
+  /**
+   * Sample if the configured interval has passed since the last sample
+   */
+  maybeSample(timestamp: number = Date.now()): number {
+    const { sampleInterval } = getConfig().processes;
+
+    if (sampleInterval <= 0 || timestamp - this.lastSampleTime < sampleInterval) {
+      return 0;
+    }
+
+    return this.sample(timestamp);
+  }
+
+  /**
+   * Store the top-N processes by RSS, all under the same timestamp
+   */
+  sample(timestamp: number = Date.now()): number {
+    this.lastSampleTime = timestamp;
+
+    try {
+      const { sampleTopN: topN, sampleRetentionDays } = getConfig().processes;
+      const processes = processScanner.getUserProcesses().slice(0, topN);
+
+      if (processes.length === 0) {
+        return 0;
+      }
+
+      dbClient.insertProcessSamples(processes.map(proc => ({
+        pid: proc.pid,
+        name: proc.command,
+        rss_kb: proc.rss_kb,
+        cpu_percent: proc.cpu_percent,
+        created_at: timestamp
+      })));
+
+      if (sampleRetentionDays > 0 && timestamp - this.lastSamplePrune > this.SAMPLE_PRUNE_INTERVAL_MS) {
+        const pruned = dbClient.pruneProcessSamples(timestamp - sampleRetentionDays * 24 * 60 * 60 * 1000);
+        if (pruned > 0) logger.debug(`Pruned ${pruned} process samples`);
+        this.lastSamplePrune = timestamp;
+      }
+
+      // The same samples feed the per-process growth trends
+      leakDetector.observe(processes, timestamp);
+
+      logger.debug(`Sampled ${processes.length} processes`);
+      return processes.length;
+    } catch (error) {
+      logger.error('Failed to sample processes', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Memory/CPU history of one PID
+   */
+  getPidHistory(pid: number, since: number, until: number, limit?: number) {
+    const samples = dbClient.getProcessSamplesByPid(pid, since, until, limit);
+
+    return {
+      pid,
+      name: samples.length > 0 ? samples[samples.length - 1].name : null,
+      samples: samples.map(s => ({
+        timestamp: s.created_at,
+        rss_mb: Math.round(s.rss_kb / 1024 * 100) / 100,
+        cpu_percent: s.cpu_percent
+      }))
+    };
+  }
+
+  /**
+   * Memory/CPU history of an app, summed over all of its processes
+   */
+  getNameHistory(name: string, since: number, until: number, limit?: number) {
+    const samples = dbClient.getProcessSamplesByName(name, since, until, limit);
+
+    return {
+      name,
+      samples: samples.map(s => ({
+        timestamp: s.created_at,
+        rss_mb: Math.round(s.rss_kb / 1024 * 100) / 100,
+        cpu_percent: Math.round(s.cpu_percent * 100) / 100,
+        process_count: s.process_count,
+        pids: s.pids.split(',').map(Number)
+      }))
+    };
+  }
+}
+
+export const processSampler = new ProcessSampler();
@@ -1,22 +1,46 @@
+import { cpus } from 'os';
 import { logger } from '../utils/logger';
 import { dbClient } from '../db/client';
-import { getConfig } from '../utils/config';
+import { DetectionOutcome, DetectionRecord } from '../db/schema';
+import { getConfig, DetectionPolicy, PolicyCondition, PolicyMetric } from '../utils/config';
 import { RAMSnapshot } from './ramMonitor';
 
 export interface DetectionEvent {
   timestamp: number;
+  outcome: DetectionOutcome;        // triggered, held back by cooldown, or still within dwell time
   ram_percent: number;
   threshold: number;
+  psi_some_avg10: number | null;
+  psi_full_avg10: number | null;
+  reasons: string[];
+  pending: string[];
   consecutive_count: number;
   action_taken: boolean;
+  cooldown_multiplier: number;
+  cooldown_remaining_ms: number | null; // Left when held back; the new cooldown when triggered
+}
+
+export interface PressureEvaluation {
+  high: boolean;
+  reasons: string[]; // Metrics of the conditions that hold, e.g. percent, psi_some
+  pending: string[]; // Metrics past their threshold but still within their dwell time
+}
+
+interface ConditionState {
+  since: number | null; // When the condition first tripped
+  active: boolean;      // Dwell time passed; stays active until the clear threshold is crossed
 }
 
 export class RAMDetector {
   private lastTriggerTime: number = 0;
   private consecutiveHighRAM: number = 0;
-  private detectionHistory: DetectionEvent[] = [];
   private cooldownMultiplier: number = 1;
   private isInCooldown: boolean = false;
+  private psiUnavailableLogged: boolean = false;
+  private lastDetectionPrune: number = 0;
+  private readonly DETECTION_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Prune old detection events hourly
+  private conditionStates = new Map<string, ConditionState>();
+  private invalidConditionsLogged = new Set<string>();
 
   /**
    * Check if RAM usage exceeds threshold
@@ -27,13 +51,15 @@ export class RAMDetector {
     const threshold = config.ram.threshold;
     const baseCooldown = config.ram.cooldown;
 
-    // Check if RAM exceeds threshold
-    if (snapshot.percent > threshold) {
+    // Evaluate the detection policy, tracking dwell time and hysteresis per condition
+    const evaluation = this.evaluatePolicy(snapshot);
+
+    if (evaluation.high || evaluation.pending.length > 0) {
       this.consecutiveHighRAM++;
 
       logger.warn(
-        `⚠️  RAM threshold exceeded: ${snapshot.percent}% > ${threshold}% ` +
-        `(consecutive: ${this.consecutiveHighRAM})`
+        `⚠️  RAM threshold exceeded: ${this.describe(snapshot, threshold)} ` +
+        `[${[...evaluation.reasons, ...evaluation.pending].join(', ')}] (consecutive: ${this.consecutiveHighRAM})`
       );
 
       // Check if we're in cooldown period
@@ -47,39 +73,37 @@ export class RAMDetector {
             `In cooldown period: ${Math.round(remainingCooldown / 1000)}s remaining`
           );
 
-          this.logDetectionEvent(snapshot, threshold, false);
+          this.logDetectionEvent(snapshot, threshold, evaluation, 'cooldown', remainingCooldown);
           return false;
         } else {
           // Cooldown expired, reset
           this.isInCooldown = false;
+          this.persistState();
           logger.info('Cooldown period expired, ready for action');
         }
       }
 
-      // Require multiple consecutive detections to avoid false positives
-      const requiredConsecutive = this.getRequiredConsecutiveCount();
-
-      if (this.consecutiveHighRAM >= requiredConsecutive) {
+      // Conditions must hold for their dwell time to avoid false positives
+      if (evaluation.high) {
         logger.warn(
           `🚨 RAM pressure confirmed after ${this.consecutiveHighRAM} consecutive detections`
         );
 
-        this.triggerAction(snapshot, threshold);
+        this.triggerAction(snapshot, threshold, evaluation);
         return true;
       } else {
         logger.debug(
-          `Need ${requiredConsecutive - this.consecutiveHighRAM} more consecutive ` +
-          `detections before taking action`
+          `Waiting for dwell time of [${evaluation.pending.join(', ')}] before taking action`
         );
 
-        this.logDetectionEvent(snapshot, threshold, false);
+        this.logDetectionEvent(snapshot, threshold, evaluation, 'dwell', null);
         return false;
       }
     } else {
       // RAM below threshold - reset counters and cooldown multiplier
       if (this.consecutiveHighRAM > 0) {
         logger.info(
-          `✅ RAM back to normal: ${snapshot.percent}% (was high for ` +
+          `✅ RAM back to normal: ${this.describe(snapshot, threshold)} (was high for ` +
           `${this.consecutiveHighRAM} cycles)`
         );
 
@@ -88,6 +112,7 @@ export class RAMDetector {
         // Gradually reduce cooldown multiplier when system recovers
         if (this.cooldownMultiplier > 1) {
           this.cooldownMultiplier = Math.max(1, this.cooldownMultiplier * 0.5);
+          this.persistState();
           logger.debug(`Cooldown multiplier reduced to ${this.cooldownMultiplier}`);
         }
       }
@@ -96,41 +121,220 @@ export class RAMDetector {
     }
   }
 
+  /**
+   * Which policy conditions trip on this snapshot alone, ignoring dwell time
+   * and hysteresis
+   */
+  evaluatePressure(snapshot: RAMSnapshot): PressureEvaluation {
+    return this.evaluateNode(this.resolvePolicy(snapshot), snapshot, 'policy', null);
+  }
+
+  /**
+   * The configured detection policy, or one built from threshold/trigger/psi.
+   * Without PSI support in the kernel the built policy only uses the percentage.
+   */
+  getPolicy(hasPressure: boolean = true): DetectionPolicy {
+    const { policy, threshold, trigger, psi, dwell } = getConfig().ram;
+    if (policy) return policy;
+
+    const percent: PolicyCondition = { metric: 'percent', above: threshold, dwell };
+    const psiConditions: PolicyCondition[] = [];
+    if (psi.someAvg10 > 0) psiConditions.push({ metric: 'psi_some', above: psi.someAvg10, dwell });
+    if (psi.fullAvg10 > 0) psiConditions.push({ metric: 'psi_full', above: psi.fullAvg10, dwell });
+
+    if (trigger === 'percent' || !hasPressure) return percent;
+    if (trigger === 'psi') return { any: psiConditions };
+    if (trigger === 'percent_and_psi') return { all: [percent, { any: psiConditions }] };
+    return { any: [percent, ...psiConditions] };
+  }
+
+  private resolvePolicy(snapshot: RAMSnapshot): DetectionPolicy {
+    const { policy, trigger } = getConfig().ram;
+
+    if (!policy && !snapshot.pressure && trigger !== 'percent' && !this.psiUnavailableLogged) {
+      logger.warn(`PSI not available, detector trigger "${trigger}" falls back to percent`);
+      this.psiUnavailableLogged = true;
+    }
+
+    return this.getPolicy(snapshot.pressure !== null);
+  }
+
+  /**
+   * Stateful evaluation used on the monitor tick, with the snapshot time as the clock
+   */
+  private evaluatePolicy(snapshot: RAMSnapshot): PressureEvaluation {
+    return this.evaluateNode(this.resolvePolicy(snapshot), snapshot, 'policy', snapshot.timestamp);
+  }
+
+  /**
+   * Evaluate a condition or an all/any group. Every child is evaluated (no
+   * short-circuit) so dwell timers keep running. `now` is null for a
+   * stateless check.
+   */
+  private evaluateNode(
+    node: DetectionPolicy,
+    snapshot: RAMSnapshot,
+    path: string,
+    now: number | null
+  ): PressureEvaluation {
+    if ('metric' in node) {
+      return this.evaluateCondition(node, snapshot, path, now);
+    }
+
+    const all = (node.all ?? []).map((child, i) => this.evaluateNode(child, snapshot, `${path}.all.${i}`, now));
+    const any = (node.any ?? []).map((child, i) => this.evaluateNode(child, snapshot, `${path}.any.${i}`, now));
+    const results = [...all, ...any];
+
+    const high =
+      (node.all !== undefined || node.any !== undefined) &&
+      (!node.all || all.every(r => r.high)) &&
+      (!node.any || any.some(r => r.high));
+
+    return {
+      high,
+      reasons: [...new Set(results.flatMap(r => r.reasons))],
+      pending: [...new Set(results.flatMap(r => r.pending))]
+    };
+  }
+
+  private evaluateCondition(
+    condition: PolicyCondition,
+    snapshot: RAMSnapshot,
+    path: string,
+    now: number | null
+  ): PressureEvaluation {
+    const none: PressureEvaluation = { high: false, reasons: [], pending: [] };
+    const holds: PressureEvaluation = { high: true, reasons: [condition.metric], pending: [] };
+
+    const rising = condition.above !== undefined;
+    const tripValue = condition.above ?? condition.below;
+
+    if (tripValue === undefined) {
+      if (!this.invalidConditionsLogged.has(path)) {
+        logger.warn(`Detection policy condition ${path} (${condition.metric}) has no "above" or "below", ignoring it`);
+        this.invalidConditionsLogged.add(path);
+      }
+      return none;
+    }
+
+    const key = `${path}:${condition.metric}:${tripValue}`;
+    const value = this.getMetricValue(condition.metric, snapshot);
+
+    // Metrics the system doesn't provide (no PSI, no swap, first swap reading) never hold
+    if (value === null) {
+      this.conditionStates.delete(key);
+      return none;
+    }
+
+    const trips = rising ? value > tripValue : value < tripValue;
+    if (now === null) {
+      return trips ? holds : none;
+    }
+
+    let state = this.conditionStates.get(key);
+    if (!state) {
+      state = { since: null, active: false };
+      this.conditionStates.set(key, state);
+    }
+
+    if (state.active) {
+      const clear = condition.clear ?? tripValue;
+      const cleared = rising ? value <= clear : value >= clear;
+
+      if (!cleared) return holds;
+
+      state.active = false;
+      state.since = null;
+    }
+
+    if (!trips) {
+      state.since = null;
+      return none;
+    }
+
+    state.since ??= now;
+    const dwell = condition.dwell ?? getConfig().ram.dwell;
+
+    if (now - state.since >= dwell) {
+      state.active = true;
+      return holds;
+    }
+
+    return { high: false, reasons: [], pending: [condition.metric] };
+  }
+
+  private getMetricValue(metric: PolicyMetric, snapshot: RAMSnapshot): number | null {
+    switch (metric) {
+      case 'percent':
+        return snapshot.percent;
+      case 'available_mb':
+        return snapshot.available_mb;
+      case 'swap_percent':
+        return snapshot.swap_total_mb > 0 ? snapshot.swap_percent : null;
+      case 'swap_in_rate':
+        return snapshot.swap_activity?.swap_in_per_sec ?? null;
+      case 'load1':
+        return snapshot.load_avg.load1;
+      case 'load1_per_cpu':
+        return snapshot.load_avg.load1 / Math.max(1, cpus().length);
+      case 'psi_some':
+        return snapshot.pressure?.some.avg10 ?? null;
+      case 'psi_full':
+        return snapshot.pressure?.full.avg10 ?? null;
+      default:
+        return null;
+    }
+  }
+
+  private describe(snapshot: RAMSnapshot, threshold: number): string {
+    const psi = snapshot.pressure
+      ? `, PSI some/full avg10 ${snapshot.pressure.some.avg10}/${snapshot.pressure.full.avg10}`
+      : '';
+    return `${snapshot.percent}% (threshold ${threshold}%${psi})`;
+  }
+
   /**
    * Trigger action when threshold is exceeded
    */
-  private triggerAction(snapshot: RAMSnapshot, threshold: number): void {
+  private triggerAction(snapshot: RAMSnapshot, threshold: number, evaluation: PressureEvaluation): void {
     this.lastTriggerTime = Date.now();
     this.isInCooldown = true;
 
     // Increase cooldown multiplier with exponential backoff
     this.cooldownMultiplier = Math.min(8, this.cooldownMultiplier * 2);
+    this.persistState();
 
     logger.warn(
       `🔥 Action triggered! Cooldown multiplier: ${this.cooldownMultiplier}x`
     );
 
     // Log detection event
-    this.logDetectionEvent(snapshot, threshold, true);
+    const nextCooldown = this.calculateCooldown(getConfig().ram.cooldown);
+    this.logDetectionEvent(snapshot, threshold, evaluation, 'triggered', nextCooldown);
 
     // Log to database
     dbClient.insertEvent({
       type: 'ram_action_triggered',
       severity: 'warning',
-      message: `RAM cleanup action triggered at ${snapshot.percent}%`,
+      message: `RAM cleanup action triggered at ${snapshot.percent}% (${evaluation.reasons.join(', ')})`,
       metadata: JSON.stringify({
         ram_percent: snapshot.percent,
         threshold,
+        trigger: getConfig().ram.trigger,
+        policy: this.getPolicy(snapshot.pressure !== null),
+        reasons: evaluation.reasons,
+        pressure: snapshot.pressure,
         used_mb: snapshot.used_mb,
         available_mb: snapshot.available_mb,
         consecutive_detections: this.consecutiveHighRAM,
         cooldown_multiplier: this.cooldownMultiplier,
-        next_cooldown_ms: this.calculateCooldown(getConfig().ram.cooldown)
+        next_cooldown_ms: nextCooldown
       })
     });
 
-    // Reset consecutive counter
+    // Reset consecutive counter; conditions must hold for their dwell time again
     this.consecutiveHighRAM = 0;
+    this.conditionStates.clear();
   }
 
   /**
@@ -151,47 +355,73 @@ export class RAMDetector {
   }
 
   /**
-   * Get required consecutive detections based on system state
-   */
-  private getRequiredConsecutiveCount(): number {
-    const config = getConfig();
-    const monitorInterval = config.ram.monitorInterval;
-
-    // Require at least 3 consecutive detections (default ~15 seconds at 5s interval)
-    // More if monitoring interval is very short
-    if (monitorInterval < 3000) {
-      return 5; // 5 detections for sub-3s intervals
-    } else if (monitorInterval < 7000) {
-      return 3; // 3 detections for 3-7s intervals
-    } else {
-      return 2; // 2 detections for longer intervals
-    }
-  }
-
-  /**
-   * Log detection event for analytics
+   * Record a detection decision, so why the detector did or didn't act can
+   * be audited after the fact (and across restarts)
    */
   private logDetectionEvent(
     snapshot: RAMSnapshot,
     threshold: number,
-    actionTaken: boolean
+    evaluation: PressureEvaluation,
+    outcome: DetectionOutcome,
+    cooldownRemaining: number | null
   ): void {
-    const event: DetectionEvent = {
-      timestamp: Date.now(),
+    const now = Date.now();
+
+    dbClient.insertDetectionEvent({
+      outcome,
       ram_percent: snapshot.percent,
       threshold,
+      psi_some_avg10: snapshot.pressure?.some.avg10 ?? null,
+      psi_full_avg10: snapshot.pressure?.full.avg10 ?? null,
+      reasons: JSON.stringify(evaluation.reasons),
+      pending: JSON.stringify(evaluation.pending),
       consecutive_count: this.consecutiveHighRAM,
-      action_taken: actionTaken
-    };
-
-    this.detectionHistory.push(event);
+      cooldown_multiplier: this.cooldownMultiplier,
+      cooldown_remaining_ms: cooldownRemaining !== null ? Math.round(cooldownRemaining) : null,
+      created_at: now
+    });
 
-    // Keep only last 100 events in memory
-    if (this.detectionHistory.length > 100) {
-      this.detectionHistory.shift();
+    // One row per tick while RAM is high, so keep only the configured window
+    const retentionDays = getConfig().ram.detectionRetentionDays;
+    if (retentionDays > 0 && now - this.lastDetectionPrune > this.DETECTION_PRUNE_INTERVAL_MS) {
+      const pruned = dbClient.pruneDetectionEvents(now - retentionDays * 24 * 60 * 60 * 1000);
+      if (pruned > 0) logger.debug(`Pruned ${pruned} detection events`);
+      this.lastDetectionPrune = now;
     }
   }
 
+  /**
+   * Save the cooldown backoff, so a restart during an incident doesn't
+   * reset it and kill again straight away
+   */
+  private persistState(): void {
+    dbClient.saveDetectorState({
+      last_trigger_time: this.lastTriggerTime,
+      cooldown_multiplier: this.cooldownMultiplier,
+      is_in_cooldown: this.isInCooldown ? 1 : 0,
+      updated_at: Date.now()
+    });
+  }
+
+  /**
+   * Restore the cooldown backoff saved by a previous run. Dwell timers and
+   * consecutive counts start over, as the snapshots behind them are gone.
+   */
+  restoreState(): void {
+    const state = dbClient.getDetectorState();
+    if (!state) return;
+
+    this.lastTriggerTime = state.last_trigger_time;
+    this.cooldownMultiplier = state.cooldown_multiplier;
+    this.isInCooldown = state.is_in_cooldown === 1;
+
+    logger.info(
+      `Restored detector state: cooldown multiplier ${this.cooldownMultiplier}x` +
+      (this.lastTriggerTime > 0 ? `, last trigger ${new Date(this.lastTriggerTime).toISOString()}` : '') +
+      (this.isInCooldown ? ', in cooldown' : '')
+    );
+  }
+
   /**
    * Get detection statistics
    */
@@ -201,8 +431,8 @@ export class RAMDetector {
 
     // Count recent detections (last hour)
     const hourAgo = now - (60 * 60 * 1000);
-    const recentDetections = this.detectionHistory.filter(e => e.timestamp > hourAgo);
-    const actionsInLastHour = recentDetections.filter(e => e.action_taken).length;
+    const total = dbClient.countDetectionEvents();
+    const lastHour = dbClient.countDetectionEvents(hourAgo);
 
     return {
       consecutiveHighRAM: this.consecutiveHighRAM,
@@ -214,18 +444,40 @@ export class RAMDetector {
         ? this.calculateCooldown(config.ram.cooldown)
         : null,
       detectionHistory: {
-        total: this.detectionHistory.length,
-        lastHour: recentDetections.length,
-        actionsLastHour: actionsInLastHour
+        total: total.total,
+        lastHour: lastHour.total,
+        actionsLastHour: lastHour.triggered
       }
     };
   }
 
   /**
-   * Get recent detection history
+   * Get the latest detection events within a time range, oldest first
    */
-  getHistory(limit: number = 50): DetectionEvent[] {
-    return this.detectionHistory.slice(-limit);
+  getHistory(
+    limit: number = 50,
+    since: number = 0,
+    until: number = Date.now(),
+    outcome?: DetectionOutcome
+  ): DetectionEvent[] {
+    return dbClient.getDetectionEvents(since, until, limit, outcome).map(record => this.toEvent(record));
+  }
+
+  private toEvent(record: DetectionRecord): DetectionEvent {
+    return {
+      timestamp: record.created_at,
+      outcome: record.outcome,
+      ram_percent: record.ram_percent,
+      threshold: record.threshold,
+      psi_some_avg10: record.psi_some_avg10,
+      psi_full_avg10: record.psi_full_avg10,
+      reasons: JSON.parse(record.reasons),
+      pending: JSON.parse(record.pending),
+      consecutive_count: record.consecutive_count,
+      action_taken: record.outcome === 'triggered',
+      cooldown_multiplier: record.cooldown_multiplier,
+      cooldown_remaining_ms: record.cooldown_remaining_ms
+    };
   }
 
   /**
@@ -236,6 +488,8 @@ export class RAMDetector {
     this.isInCooldown = false;
     this.cooldownMultiplier = 1;
     this.consecutiveHighRAM = 0;
+    this.conditionStates.clear();
+    this.persistState();
   }
 
   /**
@@ -0,0 +1,219 @@
+import { dbClient } from '../db/client';
+import { logger } from '../utils/logger';
+import { getConfig, ForecastConfidence } from '../utils/config';
+
+export interface RAMForecast {
+  timestamp: number;
+  window_minutes: number;
+  samples: number;
+  observed_minutes: number;
+  available_mb: number | null;
+  swap_free_mb: number | null;
+  available_trend_mb_per_min: number | null;   // Negative when memory is being consumed
+  swap_trend_mb_per_min: number | null;
+  minutes_to_ram_exhaustion: number | null;    // null when available memory isn't shrinking
+  minutes_to_swap_exhaustion: number | null;
+  minutes_to_exhaustion: number | null;        // RAM and swap together
+  exhaustion_at: number | null;
+  r2: number | null;
+  confidence: ForecastConfidence;
+  horizon_minutes: number;
+  predicted: boolean;                          // Exhaustion expected within the horizon
+}
+
+interface Trend {
+  slope: number;                               // MB per minute
+  r2: number;
+}
+
+// Fewer points than this can't tell a trend from noise
+const MIN_POINTS = 5;
+
+const CONFIDENCE_RANK: Record<ForecastConfidence, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+/**
+ * Projects available memory and free swap forward from recent system_stats
+ * and warns before they run out, ahead of any process being killed
+ */
+export class RAMForecaster {
+  private warnedAt: number | null = null; // Set while an exhaustion warning is active, so it fires once per episode
+
+  /**
+   * Fit a linear trend over the configured window and estimate time to exhaustion
+   */
+  forecast(timestamp: number = Date.now()): RAMForecast {
+    const config = getConfig().forecast;
+    const stats = dbClient.getSystemStatsBetween(timestamp - config.windowMinutes * 60 * 1000, timestamp)
+      .filter(s => s.created_at !== undefined && s.ram_available_mb !== undefined);
+
+    const result: RAMForecast = {
+      timestamp,
+      window_minutes: config.windowMinutes,
+      samples: stats.length,
+      observed_minutes: 0,
+      available_mb: null,
+      swap_free_mb: null,
+      available_trend_mb_per_min: null,
+      swap_trend_mb_per_min: null,
+      minutes_to_ram_exhaustion: null,
+      minutes_to_swap_exhaustion: null,
+      minutes_to_exhaustion: null,
+      exhaustion_at: null,
+      r2: null,
+      confidence: 'none',
+      horizon_minutes: config.horizonMinutes,
+      predicted: false
+    };
+
+    if (stats.length === 0) return result;
+
+    const t0 = stats[0].created_at!;
+    const xs = stats.map(s => (s.created_at! - t0) / 60000);
+    const available = stats.map(s => s.ram_available_mb!);
+    const swapFree = stats.map(s => Math.max(0, (s.swap_total_mb ?? 0) - (s.swap_used_mb ?? 0)));
+    const headroom = available.map((mb, i) => mb + swapFree[i]);
+
+    const last = stats.length - 1;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    result.observed_minutes = round(xs[last]);
+    result.available_mb = available[last];
+    result.swap_free_mb = swapFree[last];
+
+    if (stats.length < MIN_POINTS) return result;
+
+    const availableTrend = this.fit(xs, available);
+    const swapTrend = this.fit(xs, swapFree);
+    const headroomTrend = this.fit(xs, headroom);
+    if (!availableTrend || !swapTrend || !headroomTrend) return result;
+
+    result.available_trend_mb_per_min = round(availableTrend.slope);
+    result.swap_trend_mb_per_min = round(swapTrend.slope);
+    result.minutes_to_ram_exhaustion = this.minutesUntilZero(available[last], availableTrend.slope);
+    result.minutes_to_swap_exhaustion = (stats[last].swap_total_mb ?? 0) > 0
+      ? this.minutesUntilZero(swapFree[last], swapTrend.slope)
+      : null;
+    result.minutes_to_exhaustion = this.minutesUntilZero(headroom[last], headroomTrend.slope);
+    result.r2 = round(headroomTrend.r2);
+
+    if (result.minutes_to_exhaustion === null) return result;
+
+    result.exhaustion_at = Math.round(timestamp + result.minutes_to_exhaustion * 60000);
+    result.confidence = this.getConfidence(headroomTrend.r2, result.observed_minutes, config.windowMinutes);
+    result.predicted =
+      result.minutes_to_exhaustion <= config.horizonMinutes &&
+      CONFIDENCE_RANK[result.confidence] >= CONFIDENCE_RANK[config.minConfidence];
+
+    return result;
+  }
+
+  /**
+   * Run a forecast on the monitor tick and warn when exhaustion is near
+   */
+  check(timestamp: number = Date.now()): RAMForecast | null {
+    try {
+      const forecast = this.forecast(timestamp);
+
+      if (forecast.predicted && this.warnedAt === null) {
+        this.warnedAt = timestamp;
+        this.notify(forecast);
+      } else if (!forecast.predicted && this.warnedAt !== null && this.isClear(forecast)) {
+        logger.info('✅ Memory exhaustion no longer predicted');
+        this.warnedAt = null;
+      }
+
+      return forecast;
+    } catch (error) {
+      logger.error('Failed to forecast RAM exhaustion', error);
+      return null;
+    }
+  }
+
+  /**
+   * A warning is only cleared once the projection moves well past the horizon,
+   * so a trend hovering around it doesn't warn on every other tick
+   */
+  private isClear(forecast: RAMForecast): boolean {
+    return forecast.minutes_to_exhaustion === null ||
+      forecast.minutes_to_exhaustion > forecast.horizon_minutes * 2;
+  }
+
+  private notify(forecast: RAMForecast): void {
+    const minutes = forecast.minutes_to_exhaustion!;
+
+    logger.warn(
+      `⏳ Memory exhaustion predicted in ${minutes} minutes ` +
+      `(${forecast.available_mb}MB available, ${forecast.swap_free_mb}MB swap free, ` +
+      `${forecast.confidence} confidence)`
+    );
+
+    dbClient.insertEvent({
+      type: 'ram_exhaustion_predicted',
+      severity: 'warning',
+      message: `Memory expected to run out in ~${Math.ceil(minutes)} minutes ` +
+        `(${forecast.confidence} confidence) - save your work`,
+      metadata: JSON.stringify(forecast)
+    });
+
+    const webhookUrl = getConfig().forecast.webhook || process.env.N8N_RAM_SPIKE_WEBHOOK;
+    if (webhookUrl) {
+      fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          event: 'ram_exhaustion_predicted',
+          minutesToExhaustion: minutes,
+          exhaustionAt: new Date(forecast.exhaustion_at!).toISOString(),
+          availableMb: forecast.available_mb,
+          swapFreeMb: forecast.swap_free_mb,
+          confidence: forecast.confidence,
+          timestamp: new Date(forecast.timestamp).toISOString()
+        })
+      }).catch(() => { });
+    }
+  }
+
+  private minutesUntilZero(current: number, slope: number): number | null {
+    if (slope >= 0) return null;
+    return Math.round(Math.max(0, current / -slope) * 100) / 100;
+  }
+
+  /**
+   * A close fit over most of the window is trusted; short or noisy series aren't
+   */
+  private getConfidence(r2: number, observedMinutes: number, windowMinutes: number): ForecastConfidence {
+    const coverage = observedMinutes / windowMinutes;
+
+    if (r2 >= 0.8 && coverage >= 0.5) return 'high';
+    if (r2 >= 0.5 && coverage >= 0.2) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * Least-squares fit of MB against minutes
+   */
+  private fit(xs: number[], ys: number[]): Trend | null {
+    const n = xs.length;
+    const meanX = xs.reduce((a, b) => a + b, 0) / n;
+    const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (let i = 0; i < n; i++) {
+      sxx += (xs[i] - meanX) ** 2;
+      sxy += (xs[i] - meanX) * (ys[i] - meanY);
+      syy += (ys[i] - meanY) ** 2;
+    }
+
+    if (sxx === 0) return null;
+
+    return {
+      slope: sxy / sxx,
+      // A perfectly flat series has no variance to explain
+      r2: syy === 0 ? 0 : (sxy * sxy) / (sxx * syy)
+    };
+  }
+}
+
+export const ramForecaster = new RAMForecaster();
@@ -1,9 +1,12 @@
-import { procParser, MemoryInfo } from '../system/procParser';
+import { procParser, MemoryInfo, MemoryPressure, SwapActivity, CpuInfo, NetworkInfo } from '../system/procParser';
 import { dbClient } from '../db/client';
 import { logger } from '../utils/logger';
 import { getConfig } from '../utils/config';
 import { ramDetector } from './ramDetector';
 import { processManager } from './processManager';
+import { processSampler } from './processSampler';
+import { ramForecaster } from './ramForecaster';
+import { metricRollups, ROLLUP_SOURCES, BucketedSeries } from './metricRollups';
 
 export interface RAMSnapshot extends MemoryInfo {
   timestamp: number;
@@ -13,12 +16,19 @@ export interface RAMSnapshot extends MemoryInfo {
     load5: number;
     load15: number;
   };
+  pressure: MemoryPressure | null;
+  swap_activity: SwapActivity | null; // null until a second reading gives a rate
 }
 
 export class RAMMonitor {
   private intervalId: Timer | null = null;
   private isRunning: boolean = false;
   private lastSnapshot: RAMSnapshot | null = null;
+  private lastCpu: (CpuInfo & { timestamp: number }) | null = null;
+  private lastNetwork: (NetworkInfo & { timestamp: number }) | null = null;
+  private lastNetPrune: number = 0;
+  private lastOomKills: number | null = null;
+  private readonly NET_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Prune old network rows hourly
   private monitoringStartTime: number = Date.now();
   private onHighRAMCallback: ((snapshot: RAMSnapshot) => void) | null = null;
 
@@ -33,6 +43,9 @@ export class RAMMonitor {
 
     logger.info(`Starting RAM monitor (interval: ${interval}ms, threshold: ${config.ram.threshold}%)`);
 
+    // Keep the cooldown backoff across restarts
+    ramDetector.restoreState();
+
     this.captureSnapshot();
 
     this.intervalId = setInterval(() => {
@@ -83,12 +96,16 @@ export class RAMMonitor {
       const memInfo = procParser.getMemoryInfo();
       const loadAvg = procParser.getLoadAverage();
       const uptime = procParser.getUptime();
+      const pressure = procParser.getMemoryPressure();
+      const swapActivity = procParser.getSwapActivity();
 
       const snapshot: RAMSnapshot = {
         ...memInfo,
         timestamp: Date.now(),
         uptime,
-        load_avg: loadAvg
+        load_avg: loadAvg,
+        pressure,
+        swap_activity: swapActivity
       };
 
       dbClient.insertSystemStat({
@@ -96,15 +113,45 @@ export class RAMMonitor {
         ram_used_mb: snapshot.used_mb,
         ram_available_mb: snapshot.available_mb,
         ram_percent: snapshot.percent,
+        ram_free_mb: snapshot.free_mb,
+        buffers_mb: snapshot.buffers_mb,
+        cached_mb: snapshot.cached_mb,
         swap_total_mb: snapshot.swap_total_mb,
-        swap_used_mb: snapshot.swap_used_mb
+        swap_used_mb: snapshot.swap_used_mb,
+        swap_in_per_sec: swapActivity?.swap_in_per_sec,
+        swap_out_per_sec: swapActivity?.swap_out_per_sec,
+        load1: loadAvg.load1,
+        load5: loadAvg.load5,
+        load15: loadAvg.load15,
+        uptime_seconds: uptime,
+        psi_some_avg10: pressure?.some.avg10,
+        psi_some_avg60: pressure?.some.avg60,
+        psi_some_avg300: pressure?.some.avg300,
+        psi_some_total: pressure?.some.total,
+        psi_full_avg10: pressure?.full.avg10,
+        psi_full_avg60: pressure?.full.avg60,
+        psi_full_avg300: pressure?.full.avg300,
+        psi_full_total: pressure?.full.total,
+        memory_view: snapshot.view,
+        created_at: snapshot.timestamp
       });
 
       this.lastSnapshot = snapshot;
 
+      this.checkOomKills(snapshot);
+      this.captureCpu(snapshot.timestamp);
+      this.captureNetwork(snapshot.timestamp);
+
+      // Per-process samples run on their own (slower) cadence
+      processSampler.maybeSample(snapshot.timestamp);
+
+      // Heads-up before memory runs out, ahead of any kill
+      ramForecaster.check(snapshot.timestamp);
+
       logger.debug(
         `RAM: ${snapshot.percent}% (${snapshot.used_mb}/${snapshot.total_mb}MB) ` +
-        `Load: ${snapshot.load_avg.load1}`
+        `Load: ${snapshot.load_avg.load1}` +
+        (pressure ? ` PSI some/full avg10: ${pressure.some.avg10}/${pressure.full.avg10}` : '')
       );
 
       const shouldTakeAction = ramDetector.checkThreshold(snapshot);
@@ -132,6 +179,108 @@ export class RAMMonitor {
     }
   }
 
+  /**
+   * Record CPU utilization since the previous tick
+   */
+  private captureCpu(timestamp: number): void {
+    try {
+      const cpu = procParser.getCpuInfo();
+      const firstRead = this.lastCpu === null;
+      this.lastCpu = { ...cpu, timestamp };
+
+      // The first reading averages over the whole uptime, not one tick
+      if (firstRead) return;
+
+      dbClient.insertCpuStat({
+        percent: cpu.total.percent,
+        user_percent: cpu.total.user,
+        system_percent: cpu.total.system,
+        iowait_percent: cpu.total.iowait,
+        steal_percent: cpu.total.steal,
+        idle_percent: cpu.total.idle,
+        core_count: cpu.cores.length,
+        cores: JSON.stringify(cpu.cores),
+        created_at: timestamp
+      });
+    } catch (error) {
+      logger.error('Failed to capture CPU usage', error);
+    }
+  }
+
+  /**
+   * Raise an event when the cgroup's oom_kill counter goes up
+   */
+  private checkOomKills(snapshot: RAMSnapshot): void {
+    const cgroup = snapshot.cgroup;
+    if (!cgroup) return;
+
+    const previous = this.lastOomKills;
+    this.lastOomKills = cgroup.events.oom_kill;
+
+    if (previous === null || cgroup.events.oom_kill <= previous) return;
+
+    const killed = cgroup.events.oom_kill - previous;
+    logger.error(`💀 OOM killer ended ${killed} process(es) in cgroup ${cgroup.path}`);
+
+    dbClient.insertEvent({
+      type: 'cgroup_oom_kill',
+      severity: 'error',
+      message: `OOM killer ended ${killed} process(es) in cgroup ${cgroup.path} (limit ${cgroup.limit_mb ?? 'none'}MB)`,
+      metadata: JSON.stringify({
+        path: cgroup.path,
+        killed,
+        oom_kill_total: cgroup.events.oom_kill,
+        limit_mb: cgroup.limit_mb,
+        used_mb: cgroup.used_mb,
+        events: cgroup.events
+      })
+    });
+  }
+
+  /**
+   * Record per-interface throughput since the previous tick.
+   * Excluded and idle interfaces are skipped to keep the table small.
+   */
+  private captureNetwork(timestamp: number): void {
+    try {
+      const network = procParser.getNetworkInfo();
+      if (!network) return;
+
+      const { excludeInterfaces, retentionDays } = getConfig().network;
+      const interfaces = network.interfaces.filter(i => !excludeInterfaces.includes(i.interface));
+
+      this.lastNetwork = { interfaces, interval_ms: network.interval_ms, timestamp };
+
+      const active = interfaces.filter(i =>
+        i.rx_bytes_per_sec > 0 || i.tx_bytes_per_sec > 0 ||
+        i.rx_errors > 0 || i.tx_errors > 0 || i.rx_dropped > 0 || i.tx_dropped > 0
+      );
+
+      if (active.length > 0) {
+        dbClient.insertNetStats(active.map(i => ({
+          interface: i.interface,
+          rx_bytes_per_sec: i.rx_bytes_per_sec,
+          tx_bytes_per_sec: i.tx_bytes_per_sec,
+          rx_packets_per_sec: i.rx_packets_per_sec,
+          tx_packets_per_sec: i.tx_packets_per_sec,
+          rx_errors: i.rx_errors,
+          tx_errors: i.tx_errors,
+          rx_dropped: i.rx_dropped,
+          tx_dropped: i.tx_dropped,
+          created_at: timestamp
+        })));
+      }
+
+      if (retentionDays > 0 && timestamp - this.lastNetPrune > this.NET_PRUNE_INTERVAL_MS) {
+        const pruned = dbClient.pruneNetStats(timestamp - retentionDays * 24 * 60 * 60 * 1000);
+        if (pruned > 0) logger.debug(`Pruned ${pruned} network rows`);
+        this.lastNetPrune = timestamp;
+      }
+    } catch (error) {
+      logger.error('Failed to capture network stats', error);
+    }
+  }
+
   private async handleHighRAMDetection(snapshot: RAMSnapshot): Promise<void> {
     try {
       const results = await processManager.handleHighRAM(snapshot.percent);
@@ -162,6 +311,47 @@ export class RAMMonitor {
     return this.lastSnapshot;
   }
 
+  getLastCpu(): (CpuInfo & { timestamp: number }) | null {
+    return this.lastCpu;
+  }
+
+  getLastNetwork(): (NetworkInfo & { timestamp: number }) | null {
+    return this.lastNetwork;
+  }
+
+  /**
+   * Network throughput history. Intervals without traffic are not stored,
+   * so gaps in the series mean zero.
+   */
+  getNetworkHistory(since: number, until: number, iface?: string, limit?: number) {
+    return dbClient.getNetStats(since, until, iface, limit).map(stat => ({
+      timestamp: stat.created_at,
+      interface: stat.interface,
+      rx_bytes_per_sec: stat.rx_bytes_per_sec,
+      tx_bytes_per_sec: stat.tx_bytes_per_sec,
+      rx_packets_per_sec: stat.rx_packets_per_sec,
+      tx_packets_per_sec: stat.tx_packets_per_sec,
+      rx_errors: stat.rx_errors,
+      tx_errors: stat.tx_errors,
+      rx_dropped: stat.rx_dropped,
+      tx_dropped: stat.tx_dropped
+    }));
+  }
+
+  getCpuHistory(since: number, until: number, limit?: number, includeCores: boolean = false) {
+    return dbClient.getCpuStats(since, until, limit).map(stat => ({
+      timestamp: stat.created_at || 0,
+      percent: stat.percent,
+      user: stat.user_percent,
+      system: stat.system_percent,
+      iowait: stat.iowait_percent,
+      steal: stat.steal_percent,
+      idle: stat.idle_percent,
+      core_count: stat.core_count,
+      ...(includeCores ? { cores: stat.cores ? JSON.parse(stat.cores) : [] } : {})
+    }));
+  }
+
   getStatus() {
     const detectorStats = ramDetector.getStats();
 
@@ -173,6 +363,10 @@ export class RAMMonitor {
       config: {
         interval: getConfig().ram.monitorInterval,
         threshold: getConfig().ram.threshold,
+        trigger: getConfig().ram.trigger,
+        psi: getConfig().ram.psi,
+        cgroup: this.lastSnapshot?.cgroup?.path ?? null,
+        policy: ramDetector.getPolicy(!!this.lastSnapshot?.pressure),
         cooldown: getConfig().ram.cooldown,
         autoKillEnabled: getConfig().ram.enableAutoKill
       }
@@ -181,40 +375,41 @@ export class RAMMonitor {
 
   getStats(minutes: number = 60) {
     const cutoff = Date.now() - (minutes * 60 * 1000);
-    const db = dbClient.getDb();
-
-    const stats = db.prepare(`
-      SELECT 
-        AVG(ram_percent) as avg_percent,
-        MAX(ram_percent) as max_percent,
-        MIN(ram_percent) as min_percent,
-        AVG(ram_used_mb) as avg_used_mb,
-        COUNT(*) as sample_count
-      FROM system_stats
-      WHERE created_at > ?
-    `).get(cutoff) as any;
+
+    // Long periods are read from rollups instead of every 5s row
+    const percent = metricRollups.getSummary('ram_percent', cutoff);
+    const used = metricRollups.getSummary('ram_used_mb', cutoff);
 
     return {
       period_minutes: minutes,
-      average_percent: Math.round(stats.avg_percent * 100) / 100,
-      max_percent: Math.round(stats.max_percent * 100) / 100,
-      min_percent: Math.round(stats.min_percent * 100) / 100,
-      average_used_mb: Math.round(stats.avg_used_mb * 100) / 100,
-      sample_count: stats.sample_count
+      resolution: percent.resolution,
+      average_percent: Math.round((percent.avg ?? 0) * 100) / 100,
+      max_percent: Math.round((percent.max ?? 0) * 100) / 100,
+      min_percent: Math.round((percent.min ?? 0) * 100) / 100,
+      average_used_mb: Math.round((used.avg ?? 0) * 100) / 100,
+      sample_count: percent.samples
     };
   }
 
+  /**
+   * RAM, cache, swap, load and PSI history in avg/min/max buckets for charts
+   */
+  getBucketedHistory(since: number, until: number, step?: number): BucketedSeries {
+    const metrics = ROLLUP_SOURCES.filter(s => s.table === 'system_stats').map(s => s.metric);
+    return metricRollups.getBucketedSeries(metrics, since, until, step);
+  }
+
   getHistory(limit: number = 100): RAMSnapshot[] {
     const stats = dbClient.getLatestSystemStats(limit);
 
     return stats.map(stat => ({
       total_mb: stat.ram_total_mb,
-      free_mb: stat.ram_total_mb - stat.ram_used_mb,
+      free_mb: stat.ram_free_mb ?? stat.ram_total_mb - stat.ram_used_mb,
       available_mb: stat.ram_available_mb,
       used_mb: stat.ram_used_mb,
       percent: stat.ram_percent,
-      buffers_mb: 0,
-      cached_mb: 0,
+      buffers_mb: stat.buffers_mb ?? 0,
+      cached_mb: stat.cached_mb ?? 0,
       swap_total_mb: stat.swap_total_mb || 0,
       swap_free_mb: (stat.swap_total_mb || 0) - (stat.swap_used_mb || 0),
       swap_used_mb: stat.swap_used_mb || 0,
@@ -222,8 +417,42 @@ export class RAMMonitor {
         ? Math.round(((stat.swap_used_mb || 0) / stat.swap_total_mb) * 10000) / 100
         : 0,
       timestamp: stat.created_at || 0,
-      uptime: 0,
-      load_avg: { load1: 0, load5: 0, load15: 0 }
+      uptime: stat.uptime_seconds ?? 0,
+      load_avg: { load1: stat.load1 ?? 0, load5: stat.load5 ?? 0, load15: stat.load15 ?? 0 },
+      pressure: stat.psi_some_avg10 != null
+        ? {
+          some: {
+            avg10: stat.psi_some_avg10,
+            avg60: stat.psi_some_avg60 ?? 0,
+            avg300: stat.psi_some_avg300 ?? 0,
+            total: stat.psi_some_total ?? 0
+          },
+          full: {
+            avg10: stat.psi_full_avg10 ?? 0,
+            avg60: stat.psi_full_avg60 ?? 0,
+            avg300: stat.psi_full_avg300 ?? 0,
+            total: stat.psi_full_total ?? 0
+          }
+        }
+        : null,
+      swap_activity: stat.swap_in_per_sec != null
+        ? {
+          swap_in_per_sec: stat.swap_in_per_sec,
+          swap_out_per_sec: stat.swap_out_per_sec ?? 0,
+          interval_ms: getConfig().ram.monitorInterval
+        }
+        : null,
+      view: stat.memory_view ?? 'host',
+      // Only the view used for detection is stored
+      host: stat.memory_view === 'cgroup'
+        ? { total_mb: 0, available_mb: 0, used_mb: 0, percent: 0 }
+        : {
+          total_mb: stat.ram_total_mb,
+          available_mb: stat.ram_available_mb,
+          used_mb: stat.ram_used_mb,
+          percent: stat.ram_percent
+        },
+      cgroup: null
     }));
   }
 }
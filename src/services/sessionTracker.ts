@@ -0,0 +1,108 @@
+import { dbClient } from '../db/client';
+import { Session } from '../db/schema';
+import { logger } from '../utils/logger';
+import { getConfig } from '../utils/config';
+
+export interface SessionInfo {
+  session_id?: string;
+  shell_pid?: number;
+  tty?: string;
+  shell?: string;
+  hostname?: string;
+  user: string;
+}
+
+export class SessionTracker {
+  /**
+   * Resolve the session a command belongs to, creating it on first sight.
+   * Uses the hook-provided ID, otherwise derives one from host + shell PID + tty.
+   * Returns null when the payload carries nothing to identify a terminal.
+   */
+  recordActivity(info: SessionInfo, seenAt: number = Date.now()): string | null {
+    try {
+      const sessionId = this.resolveSessionId(info, seenAt);
+      if (!sessionId) return null;
+
+      dbClient.touchSession(sessionId, seenAt);
+      return sessionId;
+    } catch (error) {
+      logger.error('Failed to record session activity', error);
+      return null;
+    }
+  }
+
+  /**
+   * Close a session when its shell exits
+   */
+  endSession(id: string): Session | null {
+    if (!dbClient.endSession(id, Date.now(), 'exit')) {
+      return null;
+    }
+
+    logger.debug(`Session ended: ${id}`);
+    return dbClient.getSession(id);
+  }
+
+  /**
+   * Close sessions whose shell never reported an exit
+   */
+  closeIdleSessions(): number {
+    try {
+      const timeout = getConfig().sessions.idleTimeout;
+      const closed = dbClient.endIdleSessions(Date.now() - timeout);
+
+      if (closed > 0) {
+        logger.info(`Closed ${closed} idle session(s)`);
+      }
+
+      return closed;
+    } catch (error) {
+      logger.error('Failed to close idle sessions', error);
+      return 0;
+    }
+  }
+
+  private resolveSessionId(info: SessionInfo, seenAt: number): string | null {
+    const explicitId = info.session_id?.trim().substring(0, 128);
+
+    if (explicitId) {
+      if (!dbClient.getSession(explicitId)) {
+        this.createSession(explicitId, info, seenAt);
+      }
+      return explicitId;
+    }
+
+    const shellPid = info.shell_pid !== undefined ? Number(info.shell_pid) : NaN;
+    if (!info.hostname || !Number.isInteger(shellPid)) {
+      return null;
+    }
+
+    const tty = info.tty || null;
+    const active = dbClient.findActiveSession(info.hostname, shellPid, tty);
+    if (active) {
+      return active.id;
+    }
+
+    // PIDs get reused, so the start time keeps derived IDs unique
+    const derivedId = `${info.hostname}-${shellPid}-${seenAt.toString(36)}`;
+    this.createSession(derivedId, { ...info, shell_pid: shellPid }, seenAt);
+    return derivedId;
+  }
+
+  private createSession(id: string, info: SessionInfo, startedAt: number): void {
+    dbClient.insertSession({
+      id,
+      user: info.user,
+      hostname: info.hostname,
+      shell: info.shell,
+      tty: info.tty || undefined,
+      shell_pid: info.shell_pid !== undefined ? Number(info.shell_pid) : undefined,
+      started_at: startedAt,
+      last_seen_at: startedAt
+    });
+
+    logger.debug(`Session started: ${id}`);
+  }
+}
+
+export const sessionTracker = new SessionTracker();
@@ -0,0 +1,208 @@
+import { logger } from '../utils/logger';
+import { getConfig } from '../utils/config';
+import { processScanner, ProcessInfo, SHELL_NAMES } from './processScanner';
+
+export interface ProcessTreeNode {
+  pid: number;
+  ppid: number;
+  command: string;
+  memory_mb: number;
+  unique_mb: number;
+  cpu_percent: number;
+  subtree_memory_mb: number;    // This process and all its descendants
+  subtree_unique_mb: number;
+  subtree_cpu_percent: number;
+  children: ProcessTreeNode[];
+}
+
+export interface AppGroup {
+  root_pid: number;
+  name: string;                 // Command of the root process
+  exe: string | null;
+  start_time: number;           // Root start time, to tell a reused root PID apart
+  pids: number[];
+  process_count: number;
+  memory_mb: number;            // RSS summed; counts pages shared between members more than once
+  pss_mb: number;               // Proportional share: the group's fair footprint
+  unique_mb: number;            // USS summed: what killing the whole group frees
+  cpu_percent: number;
+  unit: string | null;          // systemd unit / container of the root
+  container_id: string | null;
+  killable: boolean;            // Safe to kill and above processes.minMemoryMB in total
+  kill_first: boolean;          // A member matches processes.killFirst
+  blocked_by: string | null;    // Member that makes the group unsafe to kill, whatever its size
+  processes: ProcessInfo[];     // Root first
+}
+
+// Session-level processes that launch applications without being part of them
+const SESSION_PROCESSES = ['systemd', 'init', 'tmux: server', 'screen', 'sshd', 'login', 'su', 'sudo'];
+
+/**
+ * Builds the user's process tree from ppid and groups processes into
+ * applications, so a browser or Electron app with many small helpers is
+ * measured (and killed) as the one thing it is
+ */
+export class AppGrouper {
+  /**
+   * Every user process as a forest; roots are processes whose parent isn't
+   * a user process (init, systemd --user, another user's process)
+   */
+  getTree(processes: ProcessInfo[] = processScanner.getUserProcesses()): ProcessTreeNode[] {
+    const children = this.getChildren(processes);
+    const pids = new Set(processes.map(p => p.pid));
+
+    const build = (proc: ProcessInfo): ProcessTreeNode => {
+      const nodes = (children.get(proc.pid) ?? []).map(build)
+        .sort((a, b) => b.subtree_unique_mb - a.subtree_unique_mb);
+
+      return {
+        pid: proc.pid,
+        ppid: proc.ppid,
+        command: proc.command,
+        memory_mb: proc.memory_mb,
+        unique_mb: proc.unique_mb,
+        cpu_percent: proc.cpu_percent,
+        subtree_memory_mb: this.round(proc.memory_mb + nodes.reduce((sum, n) => sum + n.subtree_memory_mb, 0)),
+        subtree_unique_mb: this.round(proc.unique_mb + nodes.reduce((sum, n) => sum + n.subtree_unique_mb, 0)),
+        subtree_cpu_percent: this.round(proc.cpu_percent + nodes.reduce((sum, n) => sum + n.subtree_cpu_percent, 0)),
+        children: nodes
+      };
+    };
+
+    return processes
+      .filter(p => !pids.has(p.ppid))
+      .map(build)
+      .sort((a, b) => b.subtree_unique_mb - a.subtree_unique_mb);
+  }
+
+  /**
+   * Processes grouped by application root, largest unique memory first.
+   * A process belongs to its topmost ancestor below a session boundary
+   * (init, shell, session manager, protected process or this tracker) within
+   * the same systemd unit or container; a boundary process is always an
+   * application of its own.
+   */
+  getApps(processes: ProcessInfo[] = processScanner.getUserProcesses()): AppGroup[] {
+    const byPid = new Map(processes.map(p => [p.pid, p]));
+    const protectedList = getConfig().processes.protected;
+    const members = new Map<number, ProcessInfo[]>();
+
+    for (const proc of processes) {
+      const root = this.findRoot(proc, byPid, protectedList);
+      const group = members.get(root.pid) ?? [];
+      group.push(proc);
+      members.set(root.pid, group);
+    }
+
+    const apps = [...members.entries()].map(([rootPid, procs]) =>
+      this.toGroup(byPid.get(rootPid)!, procs, protectedList)
+    );
+
+    logger.debug(`Grouped ${processes.length} processes into ${apps.length} applications`);
+    return apps.sort((a, b) => b.unique_mb - a.unique_mb);
+  }
+
+  /**
+   * Application groups that may be killed as a whole: killFirst matches first,
+   * then largest unique memory
+   */
+  getKillableApps(): AppGroup[] {
+    return this.getApps()
+      .filter(app => app.killable)
+      .sort((a, b) => Number(b.kill_first) - Number(a.kill_first) || b.unique_mb - a.unique_mb);
+  }
+
+  /**
+   * The application a PID belongs to (as root or member)
+   */
+  getApp(pid: number): AppGroup | null {
+    return this.getApps().find(app => app.pids.includes(pid)) ?? null;
+  }
+
+  private findRoot(proc: ProcessInfo, byPid: Map<number, ProcessInfo>, protectedList: string[]): ProcessInfo {
+    let root = proc;
+    const seen = new Set<number>([proc.pid]);
+
+    while (!this.isBoundary(root, protectedList)) {
+      const parent = byPid.get(root.ppid);
+      if (!parent || seen.has(parent.pid) || this.isBoundary(parent, protectedList)) break;
+
+      // A launcher's child moved to its own unit or container is a separate application
+      if (parent.unit !== root.unit || parent.container_id !== root.container_id) break;
+
+      seen.add(parent.pid);
+      root = parent;
+    }
+
+    return root;
+  }
+
+  /**
+   * Processes that start applications rather than belong to one
+   */
+  private isBoundary(proc: ProcessInfo, protectedList: string[]): boolean {
+    const command = proc.command.toLowerCase();
+
+    return proc.pid === 1 ||
+      SHELL_NAMES.includes(command) ||
+      SESSION_PROCESSES.includes(command) ||
+      processScanner.isCurrentProcess(proc) ||
+      processScanner.isProtected(proc, protectedList, true);
+  }
+
+  private toGroup(root: ProcessInfo, procs: ProcessInfo[], protectedList: string[]): AppGroup {
+    const ordered = [root, ...procs.filter(p => p.pid !== root.pid).sort((a, b) => b.unique_mb - a.unique_mb)];
+    const sum = (value: (p: ProcessInfo) => number) => this.round(ordered.reduce((total, p) => total + value(p), 0));
+
+    const unique_mb = sum(p => p.unique_mb);
+    const minMemoryMB = getConfig().processes.minMemoryMB;
+
+    // The whole group is signalled, so one unkillable member blocks it
+    let blocked_by: string | null = null;
+    for (const proc of ordered) {
+      // Names only: an Electron helper's "--shared-files" flag doesn't make it "sh"
+      const blocker = processScanner.getKillBlocker(proc, protectedList, true);
+      if (blocker) {
+        blocked_by = `${proc.command} (${proc.pid}): ${blocker}`;
+        break;
+      }
+    }
+
+    return {
+      root_pid: root.pid,
+      name: root.command,
+      exe: root.exe,
+      start_time: root.start_time,
+      pids: ordered.map(p => p.pid),
+      process_count: ordered.length,
+      memory_mb: sum(p => p.memory_mb),
+      pss_mb: sum(p => (p.pss_kb ?? p.rss_kb) / 1024),
+      unique_mb,
+      cpu_percent: sum(p => p.cpu_percent),
+      unit: root.unit,
+      container_id: root.container_id,
+      killable: blocked_by === null && unique_mb >= minMemoryMB,
+      kill_first: ordered.some(p => processScanner.isKillFirst(p)),
+      blocked_by,
+      processes: ordered
+    };
+  }
+
+  private getChildren(processes: ProcessInfo[]): Map<number, ProcessInfo[]> {
+    const children = new Map<number, ProcessInfo[]>();
+
+    for (const proc of processes) {
+      const siblings = children.get(proc.ppid) ?? [];
+      siblings.push(proc);
+      children.set(proc.ppid, siblings);
+    }
+
+    return children;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const appGrouper = new AppGrouper();
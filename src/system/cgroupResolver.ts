@@ -0,0 +1,201 @@
+import { procParser } from './procParser';
+import { ProcessInfo } from './processScanner';
+
+export type ContainerRuntime = 'docker' | 'podman' | 'containerd' | 'cri-o';
+
+export interface CgroupOwner {
+  kind: 'unit' | 'container';
+  name: string;                 // Unit name, or the 12-character container id
+  path: string;                 // The unit's or container's own cgroup
+  unit: string | null;          // Deepest systemd service/scope, e.g. app-firefox-1234.scope
+  app: string | null;           // Application a unit runs (app-firefox-1234.scope → firefox)
+  container_id: string | null;  // Full 64-character id
+  runtime: ContainerRuntime | null;
+}
+
+export interface CgroupUsage extends CgroupOwner {
+  process_count: number;
+  pids: number[];
+  memory_mb: number;            // RSS summed over its processes
+  unique_mb: number;
+  pss_mb: number;
+  cpu_percent: number;
+  cgroup_memory_mb: number | null;  // memory.current: everything charged to it, page cache included
+  cgroup_limit_mb: number | null;   // Its own memory.max
+}
+
+// Scope names used by the systemd cgroup driver of each runtime
+const CONTAINER_SCOPES: [RegExp, ContainerRuntime][] = [
+  [/^docker-([0-9a-f]{64})\.scope$/, 'docker'],
+  [/^libpod-([0-9a-f]{64})\.scope$/, 'podman'],
+  [/^cri-containerd-([0-9a-f]{64})\.scope$/, 'containerd'],
+  [/^crio-([0-9a-f]{64})\.scope$/, 'cri-o']
+];
+
+// Parents of a bare container id under the cgroupfs driver (/docker/<id>)
+const CONTAINER_PARENTS: Record<string, ContainerRuntime> = {
+  docker: 'docker',
+  libpod_parent: 'podman'
+};
+
+// Launchers that prefix desktop unit names: app-gnome-firefox-1234.scope
+const UNIT_LAUNCHERS = ['gnome', 'kde', 'flatpak', 'snap'];
+
+/**
+ * Attributes processes to the systemd unit or container that owns their
+ * cgroup, the way desktop environments and container runtimes already
+ * group work
+ */
+export class CgroupResolver {
+  private cache = new Map<string, CgroupOwner | null>();
+
+  /**
+   * Owner of a cgroup path; a container wins over the unit it runs in.
+   * Returns null for cgroups outside any unit or container ("/").
+   */
+  resolve(path: string | null): CgroupOwner | null {
+    if (!path) return null;
+
+    const cached = this.cache.get(path);
+    if (cached !== undefined) return cached;
+
+    // Scope names carry a PID or random suffix, so paths don't repeat forever
+    if (this.cache.size >= 1000) this.cache.clear();
+
+    const owner = this.parse(path);
+    this.cache.set(path, owner);
+    return owner;
+  }
+
+  /**
+   * Memory and CPU of processes summed per unit and per container, with what
+   * the kernel charges to each cgroup when the cgroup2 mount is readable
+   */
+  getUsage(processes: ProcessInfo[]) {
+    const groups = new Map<string, { owner: CgroupOwner; processes: ProcessInfo[] }>();
+    const unattributed: ProcessInfo[] = [];
+
+    for (const proc of processes) {
+      const owner = this.resolve(proc.cgroup);
+      if (!owner) {
+        unattributed.push(proc);
+        continue;
+      }
+
+      const group = groups.get(owner.path) ?? { owner, processes: [] };
+      group.processes.push(proc);
+      groups.set(owner.path, group);
+    }
+
+    const usage = [...groups.values()]
+      .map(({ owner, processes }) => this.toUsage(owner, processes))
+      .sort((a, b) => b.unique_mb - a.unique_mb);
+
+    return {
+      units: usage.filter(u => u.kind === 'unit'),
+      containers: usage.filter(u => u.kind === 'container'),
+      unattributed: {
+        process_count: unattributed.length,
+        memory_mb: this.sum(unattributed, p => p.memory_mb),
+        unique_mb: this.sum(unattributed, p => p.unique_mb)
+      }
+    };
+  }
+
+  private parse(path: string): CgroupOwner | null {
+    const segments = path.split('/').filter(Boolean);
+    let unitIndex = segments.length - 1;
+    while (unitIndex >= 0 && !/\.(service|scope)$/.test(segments[unitIndex])) unitIndex--;
+    const unit = unitIndex >= 0 ? this.unescape(segments[unitIndex]) : null;
+
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const container = this.matchContainer(segments[i], segments[i - 1]);
+      if (container) {
+        return {
+          kind: 'container',
+          name: container.id.slice(0, 12),
+          path: '/' + segments.slice(0, i + 1).join('/'),
+          unit,
+          app: null,
+          container_id: container.id,
+          runtime: container.runtime
+        };
+      }
+    }
+
+    if (unit === null) return null;
+
+    return {
+      kind: 'unit',
+      name: unit,
+      path: '/' + segments.slice(0, unitIndex + 1).join('/'),
+      unit,
+      app: this.getAppName(unit),
+      container_id: null,
+      runtime: null
+    };
+  }
+
+  private matchContainer(segment: string, parent: string | undefined): { id: string; runtime: ContainerRuntime } | null {
+    for (const [pattern, runtime] of CONTAINER_SCOPES) {
+      const match = segment.match(pattern);
+      if (match) return { id: match[1], runtime };
+    }
+
+    if (parent && parent in CONTAINER_PARENTS && /^[0-9a-f]{64}$/.test(segment)) {
+      return { id: segment, runtime: CONTAINER_PARENTS[parent] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Application id of a unit, per the XDG naming of desktop units:
+   * app[-<launcher>]-<id>[@<random>].service and app[-<launcher>]-<id>-<random>.scope.
+   * Other services are named after their unit; other scopes (session-3.scope) run no one app.
+   */
+  private getAppName(unit: string): string | null {
+    const isScope = unit.endsWith('.scope');
+    let name = unit.replace(/\.(service|scope)$/, '').replace(/@.*$/, '');
+
+    if (!name.startsWith('app-')) {
+      return isScope ? null : name;
+    }
+
+    name = name.slice('app-'.length);
+    const launcher = UNIT_LAUNCHERS.find(l => name.startsWith(`${l}-`));
+    if (launcher) name = name.slice(launcher.length + 1);
+    if (isScope) name = name.replace(/-(\d+|[0-9a-f]{32})$/, '');
+
+    return name || null;
+  }
+
+  /**
+   * systemd escapes "-" inside unit names as \x2d
+   */
+  private unescape(name: string): string {
+    return name.replace(/\\x([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  }
+
+  private toUsage(owner: CgroupOwner, processes: ProcessInfo[]): CgroupUsage {
+    const cgroup = procParser.readCgroupUsage(owner.path);
+
+    return {
+      ...owner,
+      process_count: processes.length,
+      pids: processes.map(p => p.pid),
+      memory_mb: this.sum(processes, p => p.memory_mb),
+      unique_mb: this.sum(processes, p => p.unique_mb),
+      pss_mb: this.sum(processes, p => (p.pss_kb ?? p.rss_kb) / 1024),
+      cpu_percent: this.sum(processes, p => p.cpu_percent),
+      cgroup_memory_mb: cgroup.current_mb,
+      cgroup_limit_mb: cgroup.limit_mb
+    };
+  }
+
+  private sum(processes: ProcessInfo[], value: (p: ProcessInfo) => number): number {
+    return Math.round(processes.reduce((total, p) => total + value(p), 0) * 100) / 100;
+  }
+}
+
+export const cgroupResolver = new CgroupResolver();
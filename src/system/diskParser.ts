@@ -0,0 +1,226 @@
+import { readFileSync, statfsSync } from 'fs';
+import { resolve } from 'path';
+import { logger } from '../utils/logger';
+
+export interface MountInfo {
+  device: string;
+  mount: string;
+  fs_type: string;
+  read_only: boolean;
+}
+
+export interface FilesystemUsage extends MountInfo {
+  total_mb: number;
+  used_mb: number;
+  available_mb: number;   // Available to unprivileged users (df "Avail")
+  percent: number;        // used / (used + available), like df
+  inodes_total: number;
+  inodes_used: number;
+  inodes_percent: number;
+}
+
+export interface DiskIO {
+  device: string;
+  read_bytes_per_sec: number;
+  write_bytes_per_sec: number;
+  reads_per_sec: number;
+  writes_per_sec: number;
+  util_percent: number;   // Share of wall time the device was busy
+}
+
+// Cumulative counters from one /proc/diskstats line
+interface DiskCounters {
+  reads: number;
+  sectors_read: number;
+  writes: number;
+  sectors_written: number;
+  io_ms: number;
+}
+
+// Virtual filesystems that never hold user data
+const PSEUDO_FS_TYPES = new Set([
+  'proc', 'sysfs', 'devtmpfs', 'devpts', 'tmpfs', 'cgroup', 'cgroup2', 'mqueue', 'securityfs',
+  'debugfs', 'tracefs', 'fusectl', 'configfs', 'pstore', 'bpf', 'autofs', 'hugetlbfs',
+  'binfmt_misc', 'nsfs', 'ramfs', 'efivarfs', 'rpc_pipefs', 'squashfs', 'fuse.gvfsd-fuse',
+  'fuse.portal', 'fuse.lxcfs', 'selinuxfs', 'overlay', 'nfsd', 'devfs'
+]);
+
+// /proc/diskstats always counts 512-byte sectors
+const SECTOR_BYTES = 512;
+
+/**
+ * Read mounted filesystems, their usage and block device I/O rates
+ */
+export class DiskParser {
+  private lastCounters: Map<string, DiskCounters> | null = null;
+  private lastRead: number = 0;
+
+  /**
+   * Real filesystems from /proc/mounts, one entry per device.
+   * Mounts listed in `include` are kept even if they would be filtered.
+   */
+  getMounts(include: string[] = []): MountInfo[] {
+    const content = readFileSync('/proc/mounts', 'utf-8');
+    const mounts: MountInfo[] = [];
+    const seenDevices = new Set<string>();
+
+    for (const line of content.split('\n')) {
+      const [device, mountPoint, fsType, options] = line.split(' ');
+      if (!device || !mountPoint) continue;
+
+      const mount = this.unescape(mountPoint);
+      const forced = include.includes(mount);
+
+      if (!forced && PSEUDO_FS_TYPES.has(fsType)) continue;
+
+      // Bind mounts repeat the same device; keep the first mount point
+      if (!forced && seenDevices.has(device)) continue;
+      seenDevices.add(device);
+
+      mounts.push({
+        device,
+        mount,
+        fs_type: fsType,
+        read_only: (options || '').split(',').includes('ro')
+      });
+    }
+
+    return mounts;
+  }
+
+  /**
+   * Mount point a path lives on (longest matching prefix in /proc/mounts)
+   */
+  findMountFor(path: string): string | null {
+    try {
+      const target = resolve(path);
+      const content = readFileSync('/proc/mounts', 'utf-8');
+      let best: string | null = null;
+
+      for (const line of content.split('\n')) {
+        const mountPoint = line.split(' ')[1];
+        if (!mountPoint) continue;
+
+        const mount = this.unescape(mountPoint);
+        const isPrefix = mount === '/' || target === mount || target.startsWith(mount + '/');
+        if (isPrefix && (!best || mount.length > best.length)) {
+          best = mount;
+        }
+      }
+
+      return best;
+    } catch (error) {
+      logger.debug(`Failed to find mount for ${path}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Space and inode usage via statfs
+   */
+  getUsage(mount: MountInfo): FilesystemUsage | null {
+    try {
+      const stats = statfsSync(mount.mount);
+      const toMB = (blocks: number) => Math.round(blocks * stats.bsize / 1024 / 1024 * 100) / 100;
+
+      const used = stats.blocks - stats.bfree;
+      const usable = used + stats.bavail;
+      const inodesUsed = stats.files - stats.ffree;
+
+      return {
+        ...mount,
+        total_mb: toMB(stats.blocks),
+        used_mb: toMB(used),
+        available_mb: toMB(stats.bavail),
+        percent: usable > 0 ? Math.round((used / usable) * 10000) / 100 : 0,
+        inodes_total: stats.files,
+        inodes_used: inodesUsed,
+        inodes_percent: stats.files > 0 ? Math.round((inodesUsed / stats.files) * 10000) / 100 : 0
+      };
+    } catch (error) {
+      logger.debug(`statfs failed for ${mount.mount}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * I/O rates per block device since the previous call (empty on the first call)
+   */
+  getDiskIO(): DiskIO[] {
+    try {
+      const now = Date.now();
+      const current = this.readDiskStats();
+      const previous = this.lastCounters;
+      const elapsedMs = now - this.lastRead;
+
+      this.lastCounters = current;
+      this.lastRead = now;
+
+      if (!previous || elapsedMs <= 0) {
+        return [];
+      }
+
+      const seconds = elapsedMs / 1000;
+      const io: DiskIO[] = [];
+
+      for (const [device, counters] of current) {
+        const before = previous.get(device);
+        if (!before) continue;
+
+        const delta = (key: keyof DiskCounters) => Math.max(0, counters[key] - before[key]);
+        const round = (value: number) => Math.round(value * 100) / 100;
+
+        io.push({
+          device,
+          read_bytes_per_sec: round(delta('sectors_read') * SECTOR_BYTES / seconds),
+          write_bytes_per_sec: round(delta('sectors_written') * SECTOR_BYTES / seconds),
+          reads_per_sec: round(delta('reads') / seconds),
+          writes_per_sec: round(delta('writes') / seconds),
+          util_percent: round(Math.min(100, delta('io_ms') / elapsedMs * 100))
+        });
+      }
+
+      return io;
+    } catch (error) {
+      logger.error('Failed to read /proc/diskstats', error);
+      return [];
+    }
+  }
+
+  /**
+   * "major minor name reads merged sectors ms writes merged sectors ms in_flight io_ms ..."
+   */
+  private readDiskStats(): Map<string, DiskCounters> {
+    const content = readFileSync('/proc/diskstats', 'utf-8');
+    const counters = new Map<string, DiskCounters>();
+
+    for (const line of content.split('\n')) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 14) continue;
+
+      const name = fields[2];
+
+      // Loop and RAM devices only add noise
+      if (/^(loop|ram)\d+$/.test(name)) continue;
+
+      counters.set(name, {
+        reads: parseInt(fields[3], 10),
+        sectors_read: parseInt(fields[5], 10),
+        writes: parseInt(fields[7], 10),
+        sectors_written: parseInt(fields[9], 10),
+        io_ms: parseInt(fields[12], 10)
+      });
+    }
+
+    return counters;
+  }
+
+  /**
+   * /proc/mounts escapes spaces, tabs and backslashes as octal (\040)
+   */
+  private unescape(value: string): string {
+    return value.replace(/\\([0-7]{3})/g, (_, octal) => String.fromCharCode(parseInt(octal, 8)));
+  }
+}
+
+export const diskParser = new DiskParser();
@@ -1,5 +1,38 @@
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, isAbsolute, join } from 'path';
 import { logger } from '../utils/logger';
+import { getConfig } from '../utils/config';
+
+export interface MemoryView {
+  total_mb: number;
+  available_mb: number;
+  used_mb: number;
+  percent: number;
+}
+
+export interface CgroupMemoryEvents {
+  low: number;
+  high: number;       // Times memory.high throttled the group
+  max: number;        // Times usage hit memory.max
+  oom: number;
+  oom_kill: number;   // Processes killed by the OOM killer in this group
+}
+
+export interface CgroupMemory {
+  path: string;
+  current_mb: number;              // memory.current (includes page cache)
+  used_mb: number;                 // Working set: current minus inactive file cache
+  limit_mb: number | null;         // Lowest memory.max up the tree; null when unlimited
+  available_mb: number | null;
+  percent: number | null;          // Working set vs limit
+  anon_mb: number;
+  file_mb: number;
+  shmem_mb: number;
+  inactive_file_mb: number;
+  swap_current_mb: number | null;  // null without swap accounting
+  swap_max_mb: number | null;
+  events: CgroupMemoryEvents;
+}
 
 export interface MemoryInfo {
   total_mb: number;
@@ -13,16 +46,317 @@ export interface MemoryInfo {
   swap_free_mb: number;
   swap_used_mb: number;
   swap_percent: number;
+  view: 'host' | 'cgroup';         // What total/free/available/used/percent describe
+  host: MemoryView;                // /proc/meminfo
+  cgroup: CgroupMemory | null;     // Configured or auto-detected cgroup v2
+}
+
+export interface PressureStats {
+  avg10: number;  // % of time stalled over the last 10s
+  avg60: number;
+  avg300: number;
+  total: number;  // Cumulative stall time in microseconds
+}
+
+export interface MemoryPressure {
+  some: PressureStats; // At least one task stalled on memory
+  full: PressureStats; // All non-idle tasks stalled at once
+}
+
+export interface SwapActivity {
+  swap_in_per_sec: number;   // Pages read back from swap (pswpin)
+  swap_out_per_sec: number;  // Pages written out to swap (pswpout)
+  interval_ms: number;
+}
+
+export interface CpuUsage {
+  cpu: string;            // "cpu" for the total, "cpu0", "cpu1", ... per core
+  percent: number;        // Busy time (everything but idle and iowait)
+  user: number;           // user + nice
+  system: number;         // system + irq + softirq
+  iowait: number;
+  steal: number;
+  idle: number;
+}
+
+export interface CpuInfo {
+  total: CpuUsage;
+  cores: CpuUsage[];
+  interval_ms: number;    // Time covered by the deltas (since boot on the first read)
+}
+
+// Cumulative jiffies from one /proc/stat "cpu" line
+interface CpuTimes {
+  user: number;
+  nice: number;
+  system: number;
+  idle: number;
+  iowait: number;
+  irq: number;
+  softirq: number;
+  steal: number;
+}
+
+export interface NetworkInterfaceStats {
+  interface: string;
+  rx_bytes_per_sec: number;
+  tx_bytes_per_sec: number;
+  rx_packets_per_sec: number;
+  tx_packets_per_sec: number;
+  rx_errors: number;       // Errors/drops during the interval
+  tx_errors: number;
+  rx_dropped: number;
+  tx_dropped: number;
+  rx_bytes_total: number;  // Cumulative counters since boot
+  tx_bytes_total: number;
+}
+
+export interface NetworkInfo {
+  interfaces: NetworkInterfaceStats[];
+  interval_ms: number;
+}
+
+// Cumulative counters from one /proc/net/dev line
+interface NetCounters {
+  rx_bytes: number;
+  rx_packets: number;
+  rx_errors: number;
+  rx_dropped: number;
+  tx_bytes: number;
+  tx_packets: number;
+  tx_errors: number;
+  tx_dropped: number;
 }
 
 /**
  * Parse /proc/meminfo to get memory statistics
  */
 export class ProcParser {
+  private lastCpuTimes: Map<string, CpuTimes> | null = null;
+  private lastCpuRead: number = 0;
+  private lastNetCounters: Map<string, NetCounters> | null = null;
+  private lastNetRead: number = 0;
+  private lastSwapCounters: { pswpin: number; pswpout: number } | null = null;
+  private lastSwapRead: number = 0;
+  private cgroupDir: string | null = null;
+  private cgroupDirFor: string | null = null; // config.cgroup.path the cached directory was resolved from
+  private cgroupMount: string | null | undefined;
+
   /**
-   * Read and parse /proc/meminfo
+   * Read /proc/meminfo, and the cgroup's memory files when one is configured or
+   * detected. When the cgroup has a limit below the host's RAM, the top-level
+   * fields describe the cgroup so detection works against that limit.
    */
   getMemoryInfo(): MemoryInfo {
+    const host = this.getHostMemoryInfo();
+    const cgroup = this.getCgroupMemory();
+
+    const hostView: MemoryView = {
+      total_mb: host.total_mb,
+      available_mb: host.available_mb,
+      used_mb: host.used_mb,
+      percent: host.percent
+    };
+
+    if (!cgroup || cgroup.limit_mb === null || cgroup.limit_mb >= host.total_mb) {
+      return { ...host, view: 'host', host: hostView, cgroup };
+    }
+
+    return {
+      ...host,
+      total_mb: cgroup.limit_mb,
+      free_mb: Math.max(0, Math.round((cgroup.limit_mb - cgroup.current_mb) * 100) / 100),
+      available_mb: cgroup.available_mb!,
+      used_mb: cgroup.used_mb,
+      percent: cgroup.percent!,
+      view: 'cgroup',
+      host: hostView,
+      cgroup
+    };
+  }
+
+  /**
+   * Memory usage of the configured cgroup v2 (memory.current/max/stat/events).
+   * Returns null when disabled or no cgroup v2 memory controller is available.
+   */
+  getCgroupMemory(): CgroupMemory | null {
+    const dir = this.resolveCgroupDir();
+    if (!dir) return null;
+
+    try {
+      const toMB = (bytes: number) => Math.round(bytes / 1024 / 1024 * 100) / 100;
+
+      const current = Number(this.readCgroupFile(dir, 'memory.current') ?? 0);
+      const stat = this.readCgroupKeyed(dir, 'memory.stat');
+      const events = this.readCgroupKeyed(dir, 'memory.events');
+      const limit = this.getCgroupLimit(dir);
+
+      const inactiveFile = stat.inactive_file ?? 0;
+      const workingSet = Math.max(0, current - inactiveFile);
+
+      const swapCurrent = this.readCgroupFile(dir, 'memory.swap.current');
+      const swapMax = this.readCgroupFile(dir, 'memory.swap.max');
+
+      return {
+        path: dir,
+        current_mb: toMB(current),
+        used_mb: toMB(workingSet),
+        limit_mb: limit !== null ? toMB(limit) : null,
+        available_mb: limit !== null ? toMB(Math.max(0, limit - workingSet)) : null,
+        percent: limit ? Math.round((workingSet / limit) * 10000) / 100 : null,
+        anon_mb: toMB(stat.anon ?? 0),
+        file_mb: toMB(stat.file ?? 0),
+        shmem_mb: toMB(stat.shmem ?? 0),
+        inactive_file_mb: toMB(inactiveFile),
+        swap_current_mb: swapCurrent !== null ? toMB(Number(swapCurrent)) : null,
+        swap_max_mb: swapMax !== null && swapMax !== 'max' ? toMB(Number(swapMax)) : null,
+        events: {
+          low: events.low ?? 0,
+          high: events.high ?? 0,
+          max: events.max ?? 0,
+          oom: events.oom ?? 0,
+          oom_kill: events.oom_kill ?? 0
+        }
+      };
+    } catch (error) {
+      logger.error(`Failed to read cgroup memory from ${dir}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * memory.current and memory.max of any cgroup, by its path below the cgroup2
+   * mount (as in /proc/[pid]/cgroup); null values when it isn't readable
+   */
+  readCgroupUsage(path: string): { current_mb: number | null; limit_mb: number | null } {
+    if (this.cgroupMount === undefined) this.cgroupMount = this.findCgroup2Mount();
+    if (!this.cgroupMount) return { current_mb: null, limit_mb: null };
+
+    const toMB = (bytes: string | null) =>
+      bytes !== null && bytes !== 'max' ? Math.round(Number(bytes) / 1024 / 1024 * 100) / 100 : null;
+    const dir = join(this.cgroupMount, path);
+
+    return {
+      current_mb: toMB(this.readCgroupFile(dir, 'memory.current')),
+      limit_mb: toMB(this.readCgroupFile(dir, 'memory.max'))
+    };
+  }
+
+  /**
+   * cgroup directory from config.cgroup.path: "auto" uses the tracker's own
+   * cgroup (the container's, under Docker), "" disables, anything else is a
+   * directory, absolute or relative to the cgroup2 mount
+   */
+  private resolveCgroupDir(): string | null {
+    const configured = getConfig().cgroup.path;
+    if (configured === this.cgroupDirFor) return this.cgroupDir;
+
+    let dir: string | null = null;
+
+    if (configured) {
+      const mount = this.findCgroup2Mount();
+
+      if (configured === 'auto') {
+        const own = this.readOwnCgroup();
+        dir = mount && own !== null ? join(mount, own) : null;
+      } else if (isAbsolute(configured)) {
+        dir = configured;
+      } else if (mount) {
+        dir = join(mount, configured);
+      }
+
+      if (dir && !existsSync(join(dir, 'memory.current'))) {
+        if (configured !== 'auto') {
+          logger.warn(`cgroup ${dir} has no memory controller, using host memory only`);
+        }
+        dir = null;
+      }
+
+      if (dir) logger.info(`Reading cgroup memory from ${dir}`);
+    }
+
+    this.cgroupDir = dir;
+    this.cgroupDirFor = configured;
+    return dir;
+  }
+
+  private findCgroup2Mount(): string | null {
+    try {
+      for (const line of readFileSync('/proc/self/mounts', 'utf-8').split('\n')) {
+        const [, mount, fsType] = line.split(' ');
+        if (fsType === 'cgroup2') return mount;
+      }
+    } catch (error) {
+      logger.debug('Failed to read /proc/self/mounts', error);
+    }
+    return null;
+  }
+
+  /**
+   * The unified hierarchy entry ("0::/system.slice/tracker.service") of /proc/self/cgroup
+   */
+  private readOwnCgroup(): string | null {
+    try {
+      const line = readFileSync('/proc/self/cgroup', 'utf-8')
+        .split('\n')
+        .find(l => l.startsWith('0::'));
+      return line ? line.slice(3) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Effective limit in bytes: the lowest memory.max of the cgroup and its ancestors
+   */
+  private getCgroupLimit(dir: string): number | null {
+    let limit: number | null = null;
+    let current = dir;
+
+    while (true) {
+      const max = this.readCgroupFile(current, 'memory.max');
+      if (max === null) break;
+
+      if (max !== 'max') {
+        limit = limit === null ? Number(max) : Math.min(limit, Number(max));
+      }
+
+      const parent = dirname(current);
+      if (parent === current) break;
+      current = parent;
+    }
+
+    return limit;
+  }
+
+  private readCgroupFile(dir: string, name: string): string | null {
+    try {
+      return readFileSync(join(dir, name), 'utf-8').trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * "key value" files such as memory.stat and memory.events
+   */
+  private readCgroupKeyed(dir: string, name: string): Record<string, number> {
+    const values: Record<string, number> = {};
+    const content = this.readCgroupFile(dir, name);
+    if (!content) return values;
+
+    for (const line of content.split('\n')) {
+      const [key, value] = line.split(' ');
+      if (key && value !== undefined) values[key] = Number(value);
+    }
+
+    return values;
+  }
+
+  /**
+   * Read and parse /proc/meminfo
+   */
+  private getHostMemoryInfo(): Omit<MemoryInfo, 'view' | 'host' | 'cgroup'> {
     try {
       const meminfo = readFileSync('/proc/meminfo', 'utf-8');
       const lines = meminfo.split('\n');
@@ -86,6 +420,250 @@ export class ProcParser {
     }
   }
 
+  /**
+   * Read /proc/pressure/memory (PSI). Returns null on kernels without PSI.
+   */
+  getMemoryPressure(): MemoryPressure | null {
+    try {
+      const content = readFileSync('/proc/pressure/memory', 'utf-8');
+      const pressure: Partial<MemoryPressure> = {};
+
+      // "some avg10=0.00 avg60=0.00 avg300=0.00 total=0"
+      for (const line of content.split('\n')) {
+        const match = line.match(/^(some|full)\s+avg10=([\d.]+)\s+avg60=([\d.]+)\s+avg300=([\d.]+)\s+total=(\d+)/);
+        if (match) {
+          const [, kind, avg10, avg60, avg300, total] = match;
+          pressure[kind as keyof MemoryPressure] = {
+            avg10: parseFloat(avg10),
+            avg60: parseFloat(avg60),
+            avg300: parseFloat(avg300),
+            total: parseInt(total, 10)
+          };
+        }
+      }
+
+      if (!pressure.some) {
+        return null;
+      }
+
+      // Older kernels only report "some"
+      return {
+        some: pressure.some,
+        full: pressure.full ?? { avg10: 0, avg60: 0, avg300: 0, total: 0 }
+      };
+    } catch (error) {
+      logger.debug('PSI not available (/proc/pressure/memory)', error);
+      return null;
+    }
+  }
+
+  /**
+   * Swap-in/out rates from the delta of /proc/vmstat since the previous call.
+   * Returns null on the first call (no baseline yet).
+   */
+  getSwapActivity(): SwapActivity | null {
+    try {
+      const now = Date.now();
+      const content = readFileSync('/proc/vmstat', 'utf-8');
+      const current = { pswpin: 0, pswpout: 0 };
+
+      for (const line of content.split('\n')) {
+        const [key, value] = line.split(' ');
+        if (key === 'pswpin' || key === 'pswpout') {
+          current[key] = parseInt(value, 10) || 0;
+        }
+      }
+
+      const previous = this.lastSwapCounters;
+      const elapsedMs = now - this.lastSwapRead;
+
+      this.lastSwapCounters = current;
+      this.lastSwapRead = now;
+
+      if (!previous || elapsedMs <= 0) {
+        return null;
+      }
+
+      const seconds = elapsedMs / 1000;
+      const rate = (key: 'pswpin' | 'pswpout') =>
+        Math.round(Math.max(0, current[key] - previous[key]) / seconds * 100) / 100;
+
+      return {
+        swap_in_per_sec: rate('pswpin'),
+        swap_out_per_sec: rate('pswpout'),
+        interval_ms: elapsedMs
+      };
+    } catch (error) {
+      logger.error('Failed to read /proc/vmstat', error);
+      return null;
+    }
+  }
+
+  /**
+   * CPU utilization from the delta of /proc/stat since the previous call.
+   * The first call covers the time since boot.
+   */
+  getCpuInfo(): CpuInfo {
+    try {
+      const now = Date.now();
+      const current = this.readCpuTimes();
+      const previous = this.lastCpuTimes;
+
+      const usage: CpuUsage[] = [];
+      for (const [cpu, times] of current) {
+        usage.push(this.cpuUsage(cpu, times, previous?.get(cpu)));
+      }
+
+      const interval = previous ? now - this.lastCpuRead : this.getUptime() * 1000;
+      this.lastCpuTimes = current;
+      this.lastCpuRead = now;
+
+      return {
+        total: usage.find(u => u.cpu === 'cpu') ?? this.cpuUsage('cpu', this.emptyCpuTimes()),
+        cores: usage.filter(u => u.cpu !== 'cpu'),
+        interval_ms: interval
+      };
+    } catch (error) {
+      logger.error('Failed to read /proc/stat', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read cumulative per-CPU times: "cpu0 user nice system idle iowait irq softirq steal ..."
+   */
+  private readCpuTimes(): Map<string, CpuTimes> {
+    const stat = readFileSync('/proc/stat', 'utf-8');
+    const times = new Map<string, CpuTimes>();
+
+    for (const line of stat.split('\n')) {
+      if (!line.startsWith('cpu')) continue;
+
+      const [cpu, ...fields] = line.trim().split(/\s+/);
+      const [user, nice, system, idle, iowait, irq, softirq, steal] = fields.map(f => parseInt(f, 10) || 0);
+
+      times.set(cpu, {
+        user: user ?? 0,
+        nice: nice ?? 0,
+        system: system ?? 0,
+        idle: idle ?? 0,
+        iowait: iowait ?? 0,
+        irq: irq ?? 0,
+        softirq: softirq ?? 0,
+        steal: steal ?? 0
+      });
+    }
+
+    return times;
+  }
+
+  private cpuUsage(cpu: string, current: CpuTimes, previous: CpuTimes = this.emptyCpuTimes()): CpuUsage {
+    const delta = (key: keyof CpuTimes) => Math.max(0, current[key] - previous[key]);
+
+    const user = delta('user') + delta('nice');
+    const system = delta('system') + delta('irq') + delta('softirq');
+    const iowait = delta('iowait');
+    const steal = delta('steal');
+    const idle = delta('idle');
+    const total = user + system + iowait + steal + idle;
+
+    const pct = (value: number) => total > 0 ? Math.round((value / total) * 10000) / 100 : 0;
+
+    return {
+      cpu,
+      percent: total > 0 ? Math.round(((user + system + steal) / total) * 10000) / 100 : 0,
+      user: pct(user),
+      system: pct(system),
+      iowait: pct(iowait),
+      steal: pct(steal),
+      idle: pct(idle)
+    };
+  }
+
+  private emptyCpuTimes(): CpuTimes {
+    return { user: 0, nice: 0, system: 0, idle: 0, iowait: 0, irq: 0, softirq: 0, steal: 0 };
+  }
+
+  /**
+   * Per-interface throughput from the delta of /proc/net/dev since the
+   * previous call. Returns null on the first call (no baseline yet).
+   */
+  getNetworkInfo(): NetworkInfo | null {
+    try {
+      const now = Date.now();
+      const current = this.readNetCounters();
+      const previous = this.lastNetCounters;
+      const elapsedMs = now - this.lastNetRead;
+
+      this.lastNetCounters = current;
+      this.lastNetRead = now;
+
+      if (!previous || elapsedMs <= 0) {
+        return null;
+      }
+
+      const seconds = elapsedMs / 1000;
+      const interfaces: NetworkInterfaceStats[] = [];
+
+      for (const [name, counters] of current) {
+        const before = previous.get(name);
+        if (!before) continue;
+
+        // Counters reset when an interface is re-created
+        const delta = (key: keyof NetCounters) => Math.max(0, counters[key] - before[key]);
+
+        interfaces.push({
+          interface: name,
+          rx_bytes_per_sec: Math.round(delta('rx_bytes') / seconds),
+          tx_bytes_per_sec: Math.round(delta('tx_bytes') / seconds),
+          rx_packets_per_sec: Math.round(delta('rx_packets') / seconds * 100) / 100,
+          tx_packets_per_sec: Math.round(delta('tx_packets') / seconds * 100) / 100,
+          rx_errors: delta('rx_errors'),
+          tx_errors: delta('tx_errors'),
+          rx_dropped: delta('rx_dropped'),
+          tx_dropped: delta('tx_dropped'),
+          rx_bytes_total: counters.rx_bytes,
+          tx_bytes_total: counters.tx_bytes
+        });
+      }
+
+      return { interfaces, interval_ms: elapsedMs };
+    } catch (error) {
+      logger.error('Failed to read /proc/net/dev', error);
+      return null;
+    }
+  }
+
+  /**
+   * "eth0: rx_bytes packets errs drop fifo frame compressed multicast tx_bytes packets errs drop ..."
+   */
+  private readNetCounters(): Map<string, NetCounters> {
+    const content = readFileSync('/proc/net/dev', 'utf-8');
+    const counters = new Map<string, NetCounters>();
+
+    for (const line of content.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const name = line.slice(0, separator).trim();
+      const fields = line.slice(separator + 1).trim().split(/\s+/).map(f => parseInt(f, 10) || 0);
+      if (fields.length < 16) continue;
+
+      counters.set(name, {
+        rx_bytes: fields[0],
+        rx_packets: fields[1],
+        rx_errors: fields[2],
+        rx_dropped: fields[3],
+        tx_bytes: fields[8],
+        tx_packets: fields[9],
+        tx_errors: fields[10],
+        tx_dropped: fields[11]
+      });
+    }
+
+    return counters;
+  }
+
   /**
    * Get CPU load averages
    */
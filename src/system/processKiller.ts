@@ -1,6 +1,8 @@
 import { spawnSync } from 'child_process';
 import { logger } from '../utils/logger';
 import { ProcessInfo } from './processScanner';
+import { processReader } from './processReader';
+import { AppGroup } from './appGrouper';
 
 export interface KillResult {
   success: boolean;
@@ -11,6 +13,17 @@ export interface KillResult {
   attempts: number;
 }
 
+export interface GroupKillResult {
+  success: boolean;             // Every member exited
+  root_pid: number;
+  name: string;
+  signal: string;               // Strongest signal the group needed
+  memory_freed_mb: number;
+  attempts: number;
+  error?: string;
+  results: KillResult[];        // One per member that was still running
+}
+
 export class ProcessKiller {
   private readonly SIGTERM_WAIT_MS = 5000; // Wait 5 seconds after SIGTERM
   private readonly SIGKILL_WAIT_MS = 2000; // Wait 2 seconds after SIGKILL
@@ -25,7 +38,7 @@ export class ProcessKiller {
       success: false,
       pid: proc.pid,
       signal: 'NONE',
-      memory_freed_mb: proc.memory_mb,
+      memory_freed_mb: proc.unique_mb,
       attempts: 0
     };
 
@@ -77,6 +90,120 @@ export class ProcessKiller {
     }
   }
 
+  /**
+   * Kill a whole application group at once. Members are stopped before they
+   * are sent SIGTERM, so a parent can't respawn helpers as they die; any
+   * still running after the grace period get SIGKILL together.
+   */
+  async killGroup(group: AppGroup, reason: string): Promise<GroupKillResult> {
+    logger.warn(
+      `Attempting to kill application: ${group.name} (root PID ${group.root_pid}, ` +
+      `${group.process_count} processes) - ${reason}`
+    );
+
+    // A member that exited since the scan may have had its PID reused
+    const members = group.processes.filter(proc => this.isRunning(proc));
+
+    const result: GroupKillResult = {
+      success: false,
+      root_pid: group.root_pid,
+      name: group.name,
+      signal: 'NONE',
+      memory_freed_mb: 0,
+      attempts: 0,
+      results: members.map(proc => ({
+        success: false,
+        pid: proc.pid,
+        signal: 'NONE',
+        memory_freed_mb: proc.unique_mb,
+        attempts: 0
+      }))
+    };
+
+    try {
+      // Attempt 1: SIGTERM every member while the group is frozen
+      for (const proc of members) await this.sendSignal(proc.pid, 'SIGSTOP');
+      for (const proc of members) await this.sendSignal(proc.pid, 'SIGTERM');
+      for (const proc of members) await this.sendSignal(proc.pid, 'SIGCONT');
+      result.attempts++;
+      result.signal = 'SIGTERM';
+
+      let survivors = await this.waitForGroupExit(members, this.SIGTERM_WAIT_MS);
+      this.recordExits(result, members, survivors, 'SIGTERM');
+
+      // Attempt 2: SIGKILL whatever is left
+      if (survivors.length > 0) {
+        logger.warn(`⏱️  ${survivors.length} process(es) of ${group.name} did not respond to SIGTERM, escalating...`);
+
+        for (const proc of survivors) await this.sendSignal(proc.pid, 'SIGKILL');
+        result.attempts++;
+        result.signal = 'SIGKILL';
+
+        const remaining = await this.waitForGroupExit(survivors, this.SIGKILL_WAIT_MS);
+        this.recordExits(result, survivors, remaining, 'SIGKILL');
+        survivors = remaining;
+      }
+
+      result.success = survivors.length === 0;
+      result.memory_freed_mb = Math.round(
+        result.results.reduce((sum, r) => sum + (r.success ? r.memory_freed_mb : 0), 0) * 100
+      ) / 100;
+
+      if (result.success) {
+        logger.info(`✅ Application ${group.name} (${members.length} processes) killed with ${result.signal}`);
+      } else {
+        result.error = `${survivors.length} process(es) did not exit after SIGKILL`;
+        logger.error(`❌ ${result.error}: ${survivors.map(p => p.pid).join(', ')}`);
+      }
+
+      return result;
+    } catch (error) {
+      logger.error(`Error killing application ${group.name} (${group.root_pid})`, error);
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      return result;
+    }
+  }
+
+  private recordExits(result: GroupKillResult, signalled: ProcessInfo[], survivors: ProcessInfo[], signal: string): void {
+    for (const proc of signalled) {
+      const member = result.results.find(r => r.pid === proc.pid)!;
+      member.attempts++;
+      member.signal = signal;
+      member.success = !survivors.includes(proc);
+      if (!member.success && signal === 'SIGKILL') {
+        member.error = 'Process did not exit after SIGKILL';
+      }
+    }
+  }
+
+  /**
+   * Wait for a set of processes to exit; returns the ones still running
+   */
+  private async waitForGroupExit(processes: ProcessInfo[], timeoutMs: number): Promise<ProcessInfo[]> {
+    const startTime = Date.now();
+    let running = processes;
+
+    while (Date.now() - startTime < timeoutMs) {
+      running = running.filter(proc => this.isRunning(proc));
+      if (running.length === 0) {
+        return running;
+      }
+
+      await Bun.sleep(100);
+    }
+
+    return running.filter(proc => this.isRunning(proc));
+  }
+
+  /**
+   * Same process still running: not exited, not a zombie awaiting its
+   * parent and not a new process that reused the PID
+   */
+  private isRunning(proc: ProcessInfo): boolean {
+    const details = processReader.read(proc.pid, { memory: false });
+    return details !== null && details.start_time === proc.start_time && details.state !== 'Z';
+  }
+
   /**
    * Send a signal to a process
    */
@@ -188,7 +315,7 @@ export class ProcessKiller {
 
     logger.warn(
       `🎯 Target selected: ${target.command} (PID ${target.pid}) ` +
-      `using ${target.memory_mb}MB (${target.memory_percent}%)`
+      `using ${target.unique_mb}MB unique, ${target.memory_mb}MB RSS (${target.memory_percent}%)`
     );
 
     return await this.killProcess(target, reason);
@@ -199,7 +326,23 @@ export class ProcessKiller {
    */
   estimateMemoryRecovery(processes: ProcessInfo[], count: number = 1): number {
     const toKill = processes.slice(0, count);
-    return toKill.reduce((sum, p) => sum + p.memory_mb, 0);
+    return toKill.reduce((sum, p) => sum + p.unique_mb, 0);
+  }
+
+  /**
+   * Dry run over application groups - the largest groups that would be killed as a whole
+   */
+  dryRunGroups(groups: AppGroup[], maxKills: number = 1): {
+    targets: AppGroup[];
+    estimated_memory_mb: number;
+  } {
+    const targets = groups.slice(0, maxKills);
+    const estimated_memory_mb = Math.round(targets.reduce((sum, g) => sum + g.unique_mb, 0) * 100) / 100;
+
+    return {
+      targets,
+      estimated_memory_mb
+    };
   }
 
   /**
@@ -0,0 +1,254 @@
+import { readFileSync, readdirSync, readlinkSync } from 'fs';
+import { logger } from '../utils/logger';
+
+export interface ProcessDetails {
+  pid: number;
+  ppid: number;
+  name: string;                   // comm (15 chars max), may contain spaces and parentheses
+  cmdline: string[];              // Empty for kernel threads and zombies
+  exe: string | null;             // null when not readable (other users, kernel threads)
+  uid: number;                    // Real UID
+  user: string;
+  state: string;                  // R, S, D, Z, T, ...
+  threads: number;
+  rss_kb: number;
+  vsz_kb: number;
+  swap_kb: number;
+  pss_kb: number | null;          // smaps_rollup; null when not readable
+  uss_kb: number | null;          // Private_Clean + Private_Dirty: freed when the process exits
+  swap_pss_kb: number | null;
+  oom_score: number | null;
+  oom_score_adj: number | null;
+  cpu_percent: number;            // Average over the process lifetime, like ps %cpu
+  start_ticks: number;            // Clock ticks after boot (unique with the PID)
+  start_time: number;             // ms since epoch
+  cgroup: string | null;          // cgroup path, e.g. /user.slice/.../app.slice/app-firefox-1234.scope
+  is_kernel_thread: boolean;
+}
+
+interface StatFields {
+  state: string;
+  ppid: number;
+  utime: number;
+  stime: number;
+  start_ticks: number;
+  vsize: number;
+}
+
+// USER_HZ; fixed at 100 on every mainstream architecture
+const CLOCK_TICKS = 100;
+
+// kthreadd; every kernel thread is its child
+const KTHREADD_PID = 2;
+
+/**
+ * Reads process details straight from /proc/[pid] instead of spawning ps,
+ * including PSS/USS from smaps_rollup and the kernel OOM scores
+ */
+export class ProcessReader {
+  private users: Map<number, string> | null = null;
+  private bootTime: number | null = null;
+
+  /**
+   * PIDs of all processes currently in /proc
+   */
+  listPids(): number[] {
+    return readdirSync('/proc')
+      .filter(entry => /^\d+$/.test(entry))
+      .map(entry => parseInt(entry, 10));
+  }
+
+  /**
+   * Read one process. Returns null when it exited mid-read or, with `uid`,
+   * belongs to someone else (checked before the more expensive files).
+   */
+  read(pid: number, options: { uid?: number; memory?: boolean } = {}): ProcessDetails | null {
+    try {
+      const status = this.readKeyed(`/proc/${pid}/status`);
+      const uid = parseInt(status.Uid?.split(/\s+/)[0] ?? '', 10);
+
+      if (options.uid !== undefined && uid !== options.uid) {
+        return null;
+      }
+
+      const stat = this.readStat(pid);
+      if (!stat) return null;
+
+      const cmdline = this.readCmdline(pid);
+      const rollup = options.memory === false ? null : this.readRollup(pid);
+      const uptimeSeconds = parseFloat(readFileSync('/proc/uptime', 'utf-8').split(' ')[0]);
+      const elapsedSeconds = uptimeSeconds - stat.start_ticks / CLOCK_TICKS;
+
+      return {
+        pid,
+        ppid: stat.ppid,
+        name: status.Name ?? '',
+        cmdline,
+        exe: this.readExe(pid),
+        uid,
+        user: this.getUserName(uid),
+        state: stat.state,
+        threads: parseInt(status.Threads ?? '1', 10),
+        rss_kb: this.parseKb(status.VmRSS),
+        vsz_kb: Math.round(stat.vsize / 1024),
+        swap_kb: this.parseKb(status.VmSwap),
+        pss_kb: rollup ? rollup.Pss ?? null : null,
+        uss_kb: rollup ? (rollup.Private_Clean ?? 0) + (rollup.Private_Dirty ?? 0) : null,
+        swap_pss_kb: rollup ? rollup.SwapPss ?? null : null,
+        oom_score: this.readNumber(`/proc/${pid}/oom_score`),
+        oom_score_adj: this.readNumber(`/proc/${pid}/oom_score_adj`),
+        cpu_percent: elapsedSeconds > 0
+          ? Math.round((stat.utime + stat.stime) / CLOCK_TICKS / elapsedSeconds * 10000) / 100
+          : 0,
+        start_ticks: stat.start_ticks,
+        start_time: Math.round((this.getBootTime() + stat.start_ticks / CLOCK_TICKS) * 1000),
+        cgroup: this.readCgroup(pid),
+        is_kernel_thread: pid === KTHREADD_PID || stat.ppid === KTHREADD_PID
+      };
+    } catch (error) {
+      logger.debug(`Failed to read /proc/${pid}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Total RAM in KB, for ps-style %mem
+   */
+  getMemTotalKb(): number {
+    return this.parseKb(this.readKeyed('/proc/meminfo').MemTotal);
+  }
+
+  /**
+   * User name of a UID from /etc/passwd, falling back to the number
+   */
+  getUserName(uid: number): string {
+    if (!this.users) {
+      this.users = new Map();
+      try {
+        for (const line of readFileSync('/etc/passwd', 'utf-8').split('\n')) {
+          const [name, , id] = line.split(':');
+          if (name && id) this.users.set(parseInt(id, 10), name);
+        }
+      } catch (error) {
+        logger.debug('Failed to read /etc/passwd', error);
+      }
+    }
+
+    return this.users.get(uid) ?? String(uid);
+  }
+
+  /**
+   * "pid (comm) state ppid ..." - comm may contain spaces and parentheses,
+   * so fields are counted from the last ")"
+   */
+  private readStat(pid: number): StatFields | null {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    if (fields.length < 21) return null;
+
+    return {
+      state: fields[0],
+      ppid: parseInt(fields[1], 10),
+      utime: parseInt(fields[11], 10),
+      stime: parseInt(fields[12], 10),
+      start_ticks: parseInt(fields[19], 10),
+      vsize: parseInt(fields[20], 10)
+    };
+  }
+
+  private readCmdline(pid: number): string[] {
+    try {
+      return readFileSync(`/proc/${pid}/cmdline`, 'utf-8')
+        .split('\0')
+        .filter(arg => arg !== '');
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * The unified (v2) path, falling back to the systemd and memory v1
+   * hierarchies when a hybrid setup leaves the unified one at "/"
+   */
+  private readCgroup(pid: number): string | null {
+    try {
+      const paths = new Map<string, string>();
+      for (const line of readFileSync(`/proc/${pid}/cgroup`, 'utf-8').split('\n')) {
+        const match = line.match(/^\d+:([^:]*):(.*)$/);
+        if (match) paths.set(match[1], match[2]);
+      }
+
+      const candidates = [paths.get(''), paths.get('name=systemd'), paths.get('memory')]
+        .filter((path): path is string => path !== undefined);
+
+      return candidates.find(path => path !== '/') ?? candidates[0] ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readExe(pid: number): string | null {
+    try {
+      return readlinkSync(`/proc/${pid}/exe`);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * smaps_rollup values in KB; null without permission (other users' processes)
+   */
+  private readRollup(pid: number): Record<string, number> | null {
+    try {
+      const rollup: Record<string, number> = {};
+      for (const [key, value] of Object.entries(this.readKeyed(`/proc/${pid}/smaps_rollup`))) {
+        rollup[key] = this.parseKb(value);
+      }
+      return 'Pss' in rollup ? rollup : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readNumber(path: string): number | null {
+    try {
+      const value = parseInt(readFileSync(path, 'utf-8').trim(), 10);
+      return isNaN(value) ? null : value;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * "Key:   value" files (status, meminfo, smaps_rollup)
+   */
+  private readKeyed(path: string): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    for (const line of readFileSync(path, 'utf-8').split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        values[line.slice(0, separator)] = line.slice(separator + 1).trim();
+      }
+    }
+
+    return values;
+  }
+
+  private parseKb(value: string | undefined): number {
+    return value ? parseInt(value, 10) || 0 : 0;
+  }
+
+  /**
+   * Boot time in seconds since epoch (btime in /proc/stat)
+   */
+  private getBootTime(): number {
+    if (this.bootTime === null) {
+      const line = readFileSync('/proc/stat', 'utf-8').split('\n').find(l => l.startsWith('btime '));
+      this.bootTime = line ? parseInt(line.split(' ')[1], 10) : 0;
+    }
+    return this.bootTime;
+  }
+}
+
+export const processReader = new ProcessReader();
@@ -1,6 +1,7 @@
-import { spawnSync } from 'child_process';
 import { logger } from '../utils/logger';
 import { getConfig } from '../utils/config';
+import { processReader, ProcessDetails } from './processReader';
+import { cgroupResolver } from './cgroupResolver';
 
 export interface ProcessInfo {
   pid: number;
@@ -14,13 +15,34 @@ export interface ProcessInfo {
   state: string;
   vsz_kb: number;
   rss_kb: number;
+  uid: number;
+  exe: string | null;
+  pss_kb: number | null;        // Proportional share of shared pages
+  uss_kb: number | null;        // Unique (private) memory
+  swap_kb: number;
+  oom_score: number | null;
+  oom_score_adj: number | null;
+  start_time: number;           // ms since epoch
+  cgroup: string | null;
+  unit: string | null;          // systemd service/scope owning the cgroup
+  container_id: string | null;  // Docker/Podman/containerd container running it
+  unique_mb: number;            // What killing it frees: USS, or RSS when smaps_rollup isn't readable
 }
 
+export const SHELL_NAMES = ['bash', 'zsh', 'fish', 'sh', 'dash', 'ksh', 'tcsh'];
+
+// Process names (comm) are truncated to this length by the kernel
+const COMM_MAX_LENGTH = 15;
+
 export class ProcessScanner {
+  private currentUid: number;
   private currentUser: string;
 
   constructor() {
-    this.currentUser = process.env.USER || 'unknown';
+    this.currentUid = process.getuid ? process.getuid() : -1;
+    this.currentUser = this.currentUid >= 0
+      ? processReader.getUserName(this.currentUid)
+      : process.env.USER || 'unknown';
   }
 
   /**
@@ -28,42 +50,18 @@ export class ProcessScanner {
    */
   getUserProcesses(): ProcessInfo[] {
     try {
-      // Use ps to get processes owned by current user
-      // Format: PID USER %MEM %CPU VSZ RSS PPID STAT COMMAND
-      const result = spawnSync('ps', [
-        '-u', this.currentUser,
-        '-o', 'pid,user,%mem,%cpu,vsz,rss,ppid,stat,comm,args',
-        '--no-headers',
-        '--sort', '-%mem'  // Sort by memory descending
-      ], {
-        encoding: 'utf-8',
-        maxBuffer: 10 * 1024 * 1024 // 10MB buffer
-      });
-
-      if (result.error) {
-        throw result.error;
-      }
-
-      if (result.status !== 0) {
-        throw new Error(`ps command failed with status ${result.status}: ${result.stderr}`);
-      }
-
-      const lines = result.stdout.trim().split('\n');
+      const memTotalKb = processReader.getMemTotalKb();
       const processes: ProcessInfo[] = [];
 
-      for (const line of lines) {
-        if (!line.trim()) continue;
-
-        try {
-          const parsed = this.parsePsLine(line);
-          if (parsed) {
-            processes.push(parsed);
-          }
-        } catch (error) {
-          logger.debug(`Failed to parse ps line: ${line}`, error);
-        }
+      for (const pid of processReader.listPids()) {
+        const details = processReader.read(pid, { uid: this.currentUid });
+        if (!details || details.is_kernel_thread) continue;
+
+        processes.push(this.toProcessInfo(details, memTotalKb));
       }
 
+      processes.sort((a, b) => b.rss_kb - a.rss_kb);
+
       logger.debug(`Found ${processes.length} processes for user ${this.currentUser}`);
       return processes;
     } catch (error) {
@@ -72,40 +70,34 @@ export class ProcessScanner {
     }
   }
 
-  /**
-   * Parse a single line from ps output
-   */
-  private parsePsLine(line: string): ProcessInfo | null {
-    // Split by whitespace, but preserve the full command at the end
-    const parts = line.trim().split(/\s+/);
-
-    if (parts.length < 9) {
-      return null;
-    }
-
-    const pid = parseInt(parts[0], 10);
-    const user = parts[1];
-    const memPercent = parseFloat(parts[2]);
-    const cpuPercent = parseFloat(parts[3]);
-    const vsz = parseInt(parts[4], 10); // KB
-    const rss = parseInt(parts[5], 10); // KB
-    const ppid = parseInt(parts[6], 10);
-    const state = parts[7];
-    const comm = parts[8];
-    const fullCommand = parts.slice(9).join(' ') || comm;
+  private toProcessInfo(details: ProcessDetails, memTotalKb: number): ProcessInfo {
+    const toMB = (kb: number) => Math.round(kb / 1024 * 100) / 100;
+    const owner = cgroupResolver.resolve(details.cgroup);
 
     return {
-      pid,
-      user,
-      memory_mb: Math.round(rss / 1024 * 100) / 100,
-      memory_percent: Math.round(memPercent * 100) / 100,
-      cpu_percent: Math.round(cpuPercent * 100) / 100,
-      command: comm,
-      full_command: fullCommand,
-      ppid,
-      state,
-      vsz_kb: vsz,
-      rss_kb: rss
+      pid: details.pid,
+      user: details.user,
+      memory_mb: toMB(details.rss_kb),
+      memory_percent: memTotalKb > 0 ? Math.round(details.rss_kb / memTotalKb * 10000) / 100 : 0,
+      cpu_percent: details.cpu_percent,
+      command: details.name,
+      full_command: details.cmdline.length > 0 ? details.cmdline.join(' ') : `[${details.name}]`,
+      ppid: details.ppid,
+      state: details.state,
+      vsz_kb: details.vsz_kb,
+      rss_kb: details.rss_kb,
+      uid: details.uid,
+      exe: details.exe,
+      pss_kb: details.pss_kb,
+      uss_kb: details.uss_kb,
+      swap_kb: details.swap_kb,
+      oom_score: details.oom_score,
+      oom_score_adj: details.oom_score_adj,
+      start_time: details.start_time,
+      cgroup: details.cgroup,
+      unit: owner?.unit ?? null,
+      container_id: owner?.container_id ?? null,
+      unique_mb: toMB(details.uss_kb ?? details.rss_kb)
     };
   }
 
@@ -125,53 +117,93 @@ export class ProcessScanner {
         return false;
       }
 
-      // Filter 2: Must not be in protected list
-      if (this.isProtected(proc, protectedList)) {
-        logger.debug(`Skipping ${proc.command} (${proc.pid}): protected process`);
+      // Filters 2-5: init, protected, current process, shell, critical state
+      const blocker = this.getKillBlocker(proc, protectedList);
+      if (blocker) {
+        logger.debug(`Skipping ${proc.command} (${proc.pid}): ${blocker}`);
         return false;
       }
 
-      // Filter 3: Must not be current process or parent
-      if (this.isCurrentProcess(proc)) {
-        logger.debug(`Skipping ${proc.command} (${proc.pid}): current process`);
-        return false;
-      }
+      return true;
+    }).sort((a, b) =>
+      // killFirst matches go first, then most unique memory (shared pages aren't freed by a kill)
+      Number(this.isKillFirst(b)) - Number(this.isKillFirst(a)) || b.unique_mb - a.unique_mb
+    );
+  }
 
-      // Filter 4: Must not be shell process
-      if (this.isShellProcess(proc)) {
-        logger.debug(`Skipping ${proc.command} (${proc.pid}): shell process`);
-        return false;
-      }
+  /**
+   * Check if process matches processes.killFirst
+   */
+  isKillFirst(proc: ProcessInfo): boolean {
+    return getConfig().processes.killFirst.some(rule => this.matchesRule(proc, rule));
+  }
 
-      // Filter 5: Must not be critical state (zombie, etc.)
-      if (this.isCriticalState(proc)) {
-        logger.debug(`Skipping ${proc.command} (${proc.pid}): critical state ${proc.state}`);
-        return false;
-      }
+  /**
+   * Why a process must never be killed regardless of its size, or null when it may be.
+   * With `exactNames`, protected entries match the process name only (see isProtected).
+   */
+  getKillBlocker(
+    proc: ProcessInfo,
+    protectedList: string[] = getConfig().processes.protected,
+    exactNames: boolean = false
+  ): string | null {
+    if (proc.pid === 1) return 'init process';
+    if (this.isProtected(proc, protectedList, exactNames)) return 'protected process';
+    if (this.isCurrentProcess(proc)) return 'current process';
+    if (this.isShellProcess(proc)) return 'shell process';
+    if (this.isCriticalState(proc)) return `critical state ${proc.state}`;
+    return null;
+  }
 
-      return true;
-    });
+  /**
+   * Check if process is in protected list. With `exactNames`, command entries
+   * must equal the process or executable name instead of appearing anywhere in
+   * the command line, where short entries like "sh" hit "/usr/share/..." paths.
+   */
+  isProtected(proc: ProcessInfo, protectedList: string[], exactNames: boolean = false): boolean {
+    return protectedList.some(rule => this.matchesRule(proc, rule, exactNames));
   }
 
   /**
-   * Check if process is in protected list
+   * One protected/killFirst entry: "unit:<glob>" matches the systemd unit,
+   * "container:<id prefix>" the container, anything else the command
    */
-  private isProtected(proc: ProcessInfo, protectedList: string[]): boolean {
+  private matchesRule(proc: ProcessInfo, rule: string, exactNames: boolean = false): boolean {
+    const ruleLower = rule.toLowerCase();
+
+    if (ruleLower.startsWith('unit:')) {
+      return proc.unit !== null && this.globMatch(proc.unit.toLowerCase(), ruleLower.slice('unit:'.length));
+    }
+
+    if (ruleLower.startsWith('container:')) {
+      return proc.container_id !== null && this.globMatch(proc.container_id, ruleLower.slice('container:'.length) + '*');
+    }
+
     const commandLower = proc.command.toLowerCase();
     const fullCommandLower = proc.full_command.toLowerCase();
 
-    return protectedList.some(pro => {
-      const protectedLower = pro.toLowerCase();
-      return commandLower === protectedLower ||
-        commandLower.includes(protectedLower) ||
-        fullCommandLower.includes(protectedLower);
-    });
+    if (exactNames) {
+      // comm is cut to 15 characters: gnome-keyring-daemon → gnome-keyring-d
+      const exeName = proc.exe?.split('/').pop()?.replace(/ \(deleted\)$/, '').toLowerCase();
+      return commandLower === ruleLower ||
+        (commandLower.length === COMM_MAX_LENGTH && ruleLower.startsWith(commandLower)) ||
+        exeName === ruleLower;
+    }
+
+    return commandLower === ruleLower ||
+      commandLower.includes(ruleLower) ||
+      fullCommandLower.includes(ruleLower);
+  }
+
+  private globMatch(value: string, pattern: string): boolean {
+    const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}$`).test(value);
   }
 
   /**
    * Check if process is current process or parent
    */
-  private isCurrentProcess(proc: ProcessInfo): boolean {
+  isCurrentProcess(proc: ProcessInfo): boolean {
     const currentPid = process.pid;
     const parentPid = process.ppid;
 
@@ -182,7 +214,6 @@ export class ProcessScanner {
    * Check if process is a shell
    */
   private isShellProcess(proc: ProcessInfo): boolean {
-    const shellPatterns = ['bash', 'zsh', 'fish', 'sh', 'dash', 'ksh', 'tcsh'];
     const commandLower = proc.command.toLowerCase();
 
     // Check if it's the current shell PID
@@ -190,7 +221,7 @@ export class ProcessScanner {
       return true;
     }
 
-    return shellPatterns.some(shell => commandLower === shell);
+    return SHELL_NAMES.includes(commandLower);
   }
 
   /**
@@ -207,8 +238,10 @@ export class ProcessScanner {
    * Get process by PID
    */
   getProcessByPid(pid: number): ProcessInfo | null {
-    const processes = this.getUserProcesses();
-    return processes.find(p => p.pid === pid) || null;
+    const details = processReader.read(pid, { uid: this.currentUid });
+    if (!details || details.is_kernel_thread) return null;
+
+    return this.toProcessInfo(details, processReader.getMemTotalKb());
   }
 
   /**
@@ -227,7 +260,7 @@ export class ProcessScanner {
     const killableProcesses = this.getKillableProcesses();
 
     const totalMemory = allProcesses.reduce((sum, p) => sum + p.memory_mb, 0);
-    const killableMemory = killableProcesses.reduce((sum, p) => sum + p.memory_mb, 0);
+    const killableMemory = killableProcesses.reduce((sum, p) => sum + p.unique_mb, 0);
 
     return {
       total_processes: allProcesses.length,
@@ -259,6 +292,13 @@ export class ProcessScanner {
       };
     }
 
+    if (proc.pid === 1) {
+      return {
+        valid: false,
+        reason: 'Cannot kill init process'
+      };
+    }
+
     const config = getConfig();
     if (this.isProtected(proc, config.processes.protected)) {
       return {
@@ -0,0 +1,141 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { logger } from '../utils/logger';
+
+export interface ProjectInfo {
+  name: string;
+  root: string;
+  repo_root: string | null;
+  branch: string | null;
+}
+
+// Files that mark the root of a project even outside a git repository
+const MANIFEST_FILES = [
+  'package.json',
+  'Cargo.toml',
+  'go.mod',
+  'pyproject.toml',
+  'setup.py',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'composer.json',
+  'Gemfile',
+  'mix.exs',
+  'deno.json'
+];
+
+interface CacheEntry {
+  info: ProjectInfo | null;
+  expires: number;
+}
+
+/**
+ * Resolve the project a working directory belongs to by walking up to
+ * the nearest `.git` or package manifest
+ */
+export class ProjectResolver {
+  private cache = new Map<string, CacheEntry>();
+  private readonly CACHE_TTL_MS = 30000; // Branches change, so keep entries short-lived
+  private readonly MAX_CACHE_SIZE = 1000;
+
+  /**
+   * Find project name, root, repository root and current branch for a cwd
+   */
+  resolve(cwd: string): ProjectInfo | null {
+    const cached = this.cache.get(cwd);
+    if (cached && cached.expires > Date.now()) {
+      return cached.info;
+    }
+
+    let info: ProjectInfo | null = null;
+
+    try {
+      info = this.lookup(cwd);
+    } catch (error) {
+      logger.debug(`Failed to resolve project for ${cwd}`, error);
+    }
+
+    if (this.cache.size >= this.MAX_CACHE_SIZE) {
+      this.cache.clear();
+    }
+    this.cache.set(cwd, { info, expires: Date.now() + this.CACHE_TTL_MS });
+
+    return info;
+  }
+
+  private lookup(cwd: string): ProjectInfo | null {
+    // Paths from the host are not visible when running in a container
+    if (!cwd.startsWith('/') || !existsSync(cwd)) {
+      return null;
+    }
+
+    let projectRoot: string | null = null;
+    let repoRoot: string | null = null;
+    let dir = resolve(cwd);
+
+    while (true) {
+      if (existsSync(join(dir, '.git'))) {
+        repoRoot = dir;
+        projectRoot = projectRoot ?? dir;
+        break;
+      }
+
+      if (!projectRoot && MANIFEST_FILES.some(file => existsSync(join(dir, file)))) {
+        projectRoot = dir;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+
+    if (!projectRoot) {
+      return null;
+    }
+
+    return {
+      name: basename(projectRoot) || projectRoot,
+      root: projectRoot,
+      repo_root: repoRoot,
+      branch: repoRoot ? this.readBranch(repoRoot) : null
+    };
+  }
+
+  /**
+   * Read the checked-out branch from .git/HEAD (short SHA when detached)
+   */
+  private readBranch(repoRoot: string): string | null {
+    try {
+      const gitDir = this.resolveGitDir(repoRoot);
+      const head = readFileSync(join(gitDir, 'HEAD'), 'utf-8').trim();
+
+      // "ref: refs/heads/main"
+      const match = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+      if (match) {
+        return match[1];
+      }
+
+      return /^[0-9a-f]{7,}$/.test(head) ? head.substring(0, 12) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Worktrees and submodules use a `.git` file pointing at the real git dir
+   */
+  private resolveGitDir(repoRoot: string): string {
+    const dotGit = join(repoRoot, '.git');
+
+    if (statSync(dotGit).isDirectory()) {
+      return dotGit;
+    }
+
+    const content = readFileSync(dotGit, 'utf-8');
+    const match = content.match(/^gitdir:\s*(.+)$/m);
+    return match ? resolve(repoRoot, match[1].trim()) : dotGit;
+  }
+}
+
+export const projectResolver = new ProjectResolver();
@@ -1,4 +1,85 @@
 import { readFileSync } from 'fs';
+import { logger } from './logger';
+
+export interface RedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+export type RuleAction = 'event' | 'webhook' | 'refuse';
+
+const RULE_ACTIONS: RuleAction[] = ['event', 'webhook', 'refuse'];
+const RULE_SEVERITIES: CommandRule['severity'][] = ['info', 'warning', 'error'];
+
+export interface CommandRule {
+  name: string;
+  pattern?: string;      // Regex tested against the full command line
+  flags?: string;
+  argv0?: string;        // Program name (basename), e.g. "kubectl"
+  args?: string[];       // Arguments/flags that must all be present, e.g. ["delete"]
+  severity: 'info' | 'warning' | 'error';
+  tags?: string[];
+  actions: RuleAction[];
+  webhook?: string;      // Overrides COMMAND_RULE_WEBHOOK for the webhook action
+}
+
+// Used when config.json has no rules section (mirrors the original critical patterns)
+export const DEFAULT_COMMAND_RULES: CommandRule[] = [
+  { name: 'sudo_rm', pattern: '^sudo\\s+rm', severity: 'warning', tags: ['destructive'], actions: ['event'] },
+  { name: 'rm_recursive_force', pattern: 'rm\\s+(-[rfRF]+|--recursive|--force)', severity: 'warning', tags: ['destructive'], actions: ['event'] },
+  { name: 'sudo_systemctl', pattern: '^sudo\\s+systemctl', severity: 'warning', tags: ['system'], actions: ['event'] },
+  { name: 'dd', pattern: '^dd\\s+if=', severity: 'warning', tags: ['disk'], actions: ['event'] },
+  { name: 'mkfs', pattern: 'mkfs\\.', severity: 'warning', tags: ['disk'], actions: ['event'] },
+  { name: 'chmod_777', pattern: '^(sudo\\s+)?chmod\\s+(-R\\s+)?777', severity: 'warning', tags: ['permissions'], actions: ['event'] },
+  { name: 'write_block_device', pattern: '> /dev/sd', severity: 'warning', tags: ['disk'], actions: ['event'] }
+];
+
+export interface DiskThreshold {
+  mount: string;          // Mount point, e.g. "/" or "/home"
+  percent?: number;       // Alert when usage exceeds this %
+  minFreeMB?: number;     // Alert when less than this is available
+}
+
+// What makes the detector consider RAM "high"
+export type RAMTrigger = 'percent' | 'psi' | 'percent_or_psi' | 'percent_and_psi';
+
+// Values a detection policy condition can test (rates are per second)
+export type PolicyMetric =
+  | 'percent'          // RAM used %
+  | 'available_mb'
+  | 'swap_percent'
+  | 'swap_in_rate'     // Pages swapped in per second
+  | 'load1'
+  | 'load1_per_cpu'
+  | 'psi_some'         // PSI some avg10
+  | 'psi_full';        // PSI full avg10
+
+const POLICY_METRICS: PolicyMetric[] = [
+  'percent', 'available_mb', 'swap_percent', 'swap_in_rate', 'load1', 'load1_per_cpu', 'psi_some', 'psi_full'
+];
+
+export interface PolicyCondition {
+  metric: PolicyMetric;
+  above?: number;       // Trips when the value rises above this...
+  below?: number;       // ...or drops below this (e.g. available_mb)
+  clear?: number;       // Must cross back past this before it resets (hysteresis); defaults to the trip value
+  dwell?: number;       // ms the condition must hold before it counts (defaults to ram.dwell)
+}
+
+export interface PolicyGroup {
+  all?: DetectionPolicy[]; // AND
+  any?: DetectionPolicy[]; // OR
+}
+
+export type DetectionPolicy = PolicyCondition | PolicyGroup;
+
+export type RollupResolution = '1m' | '1h' | '1d';
+
+export type ForecastConfidence = 'none' | 'low' | 'medium' | 'high';
+
+// What a high-RAM event kills: the single largest process, or the largest application group
+export type KillTarget = 'process' | 'app';
 
 export interface Config {
   server: {
@@ -10,11 +91,65 @@ export interface Config {
     monitorInterval: number;
     cooldown: number;
     enableAutoKill: boolean;
+    trigger: RAMTrigger;
+    psi: {
+      someAvg10: number; // Stall % (some, 10s avg) that counts as pressure; 0 disables
+      fullAvg10: number; // Stall % (full, 10s avg) that counts as pressure; 0 disables
+    };
+    dwell: number;             // Default ms a condition must hold before it counts
+    policy?: DetectionPolicy;  // Overrides threshold/trigger/psi when set
+    detectionRetentionDays: number; // Detector decisions older than this are pruned; 0 keeps forever
+  };
+  cgroup: {
+    path: string; // "auto" (own cgroup), "" (host only) or a cgroup v2 directory
   };
   processes: {
-    protected: string[];
+    protected: string[];    // Command substrings, "unit:<glob>" or "container:<id prefix>"
+    killFirst: string[];    // Same syntax; matching candidates are killed before larger ones
     minMemoryMB: number;
+    sampleInterval: number; // ms between per-process samples (0 disables)
+    sampleTopN: number;     // Largest processes recorded per sample
+    sampleRetentionDays: number; // Samples older than this are pruned; 0 keeps forever
+    killTarget: KillTarget;
   };
+  forecast: {
+    windowMinutes: number;            // Recent system_stats used for the trend
+    horizonMinutes: number;           // Warn when exhaustion is predicted within this time
+    minConfidence: ForecastConfidence; // Weaker forecasts never warn
+    webhook?: string;
+  };
+  rollups: {
+    interval: number;                                          // ms between rollup runs (0 disables)
+    retentionDays: Record<'raw' | RollupResolution, number>;   // Per resolution; 0 keeps forever
+  };
+  leaks: {
+    enabled: boolean;
+    windowMinutes: number;       // Sliding window of RSS samples per process
+    minDurationMinutes: number;  // Growth must be observed at least this long
+    minGrowthMBPerHour: number;  // Trend slope that counts as a leak
+    minR2: number;               // Fit quality (0-1); filters out sawtooth GC patterns
+    projectionHours: number;     // Horizon for the projected size
+  };
+  disk: {
+    monitorInterval: number;
+    defaultThreshold: number; // % used for mounts without their own threshold
+    thresholds: DiskThreshold[];
+  };
+  network: {
+    excludeInterfaces: string[]; // Not recorded, e.g. loopback
+    retentionDays: number;       // Per-interval rows older than this are pruned
+  };
+  commands: {
+    abandonTimeout: number;
+  };
+  redaction: {
+    enabled: boolean;
+    rules: RedactionRule[];
+  };
+  sessions: {
+    idleTimeout: number;
+  };
+  rules: CommandRule[];
   database: {
     path: string;
   };
@@ -26,6 +161,141 @@ export interface Config {
 
 let config: Config;
 
+/**
+ * Why a detection policy (or one of its nodes) can't be evaluated, or null when it can
+ */
+function validatePolicy(node: any, path: string = 'policy'): string | null {
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    return `${path} must be a condition or an all/any group`;
+  }
+
+  if ('metric' in node) {
+    if (!POLICY_METRICS.includes(node.metric)) {
+      return `${path}.metric "${node.metric}" is not one of ${POLICY_METRICS.join(', ')}`;
+    }
+    if ((node.above === undefined) === (node.below === undefined)) {
+      return `${path} needs exactly one of "above" or "below"`;
+    }
+    for (const key of ['above', 'below', 'clear', 'dwell']) {
+      if (node[key] !== undefined && !Number.isFinite(node[key])) {
+        return `${path}.${key} must be a number`;
+      }
+    }
+    return null;
+  }
+
+  if (node.all === undefined && node.any === undefined) {
+    return `${path} needs a "metric" or an "all"/"any" list`;
+  }
+
+  for (const key of ['all', 'any']) {
+    if (node[key] === undefined) continue;
+    if (!Array.isArray(node[key]) || node[key].length === 0) {
+      return `${path}.${key} must be a non-empty list`;
+    }
+    for (let i = 0; i < node[key].length; i++) {
+      const error = validatePolicy(node[key][i], `${path}.${key}.${i}`);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * RAM_POLICY (JSON) or ram.policy; an invalid one is ignored so the detector
+ * falls back to the policy built from threshold/trigger/psi
+ */
+function loadPolicy(envPolicy: string | undefined, basePolicy: unknown): DetectionPolicy | undefined {
+  let policy = basePolicy;
+  let source = 'ram.policy';
+
+  if (envPolicy) {
+    source = 'RAM_POLICY';
+    try {
+      policy = JSON.parse(envPolicy);
+    } catch (error) {
+      logger.error(`Invalid ${source} (not JSON), using threshold/trigger/psi instead`, String(error));
+      return undefined;
+    }
+  }
+
+  if (policy === undefined || policy === null) return undefined;
+
+  const error = validatePolicy(policy);
+  if (error) {
+    logger.error(`Invalid ${source}: ${error}; using threshold/trigger/psi instead`);
+    return undefined;
+  }
+
+  return policy as DetectionPolicy;
+}
+
+/**
+ * Why a command rule can't be evaluated, or null when it can
+ */
+function validateRule(rule: any, path: string): string | null {
+  if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+    return `${path} must be an object`;
+  }
+  if (typeof rule.name !== 'string' || !rule.name) {
+    return `${path}.name must be a non-empty string`;
+  }
+  for (const key of ['pattern', 'flags', 'argv0', 'webhook']) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+      return `${path}.${key} must be a string`;
+    }
+  }
+  if (!rule.pattern && !rule.argv0) {
+    return `${path} needs a "pattern" or an "argv0"`;
+  }
+  if (rule.pattern) {
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch (error) {
+      return `${path}.pattern is not a valid regex (${String(error)})`;
+    }
+  }
+  for (const key of ['args', 'tags']) {
+    if (rule[key] !== undefined && (!Array.isArray(rule[key]) || rule[key].some((v: unknown) => typeof v !== 'string'))) {
+      return `${path}.${key} must be a list of strings`;
+    }
+  }
+  if (rule.severity !== undefined && !RULE_SEVERITIES.includes(rule.severity)) {
+    return `${path}.severity must be one of ${RULE_SEVERITIES.join(', ')}`;
+  }
+  if (rule.actions !== undefined &&
+    (!Array.isArray(rule.actions) || rule.actions.some((a: unknown) => !RULE_ACTIONS.includes(a as RuleAction)))) {
+    return `${path}.actions must be a list of ${RULE_ACTIONS.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Command rules from config.json, or the defaults without a rules section.
+ * Invalid rules are dropped with an error, so one typo can't break logging;
+ * severity defaults to warning and actions to ["event"].
+ */
+function loadRules(baseRules: unknown): CommandRule[] {
+  if (baseRules === undefined || baseRules === null) return DEFAULT_COMMAND_RULES;
+
+  if (!Array.isArray(baseRules)) {
+    logger.error('Invalid rules: must be a list; using the default rules instead');
+    return DEFAULT_COMMAND_RULES;
+  }
+
+  return baseRules.flatMap((rule, i) => {
+    const error = validateRule(rule, `rules.${i}`);
+    if (error) {
+      logger.error(`Invalid rule ${rule?.name ? `"${rule.name}" ` : ''}dropped: ${error}`);
+      return [];
+    }
+
+    return [{ ...rule, severity: rule.severity ?? 'warning', actions: rule.actions ?? ['event'] }];
+  });
+}
+
 export function loadConfig(): Config {
   if (config) return config;
 
@@ -41,9 +311,30 @@ export function loadConfig(): Config {
         threshold: 90,
         monitorInterval: 5000,
         cooldown: 120000,
-        enableAutoKill: false
+        enableAutoKill: false,
+        trigger: 'percent',
+        psi: { someAvg10: 25, fullAvg10: 10 },
+        dwell: 10000,
+        detectionRetentionDays: 30
+      },
+      cgroup: { path: 'auto' },
+      processes: { protected: [], killFirst: [], minMemoryMB: 100, sampleInterval: 30000, sampleTopN: 15, sampleRetentionDays: 7, killTarget: 'process' },
+      forecast: { windowMinutes: 15, horizonMinutes: 5, minConfidence: 'medium' },
+      rollups: { interval: 60000, retentionDays: { raw: 7, '1m': 30, '1h': 365, '1d': 0 } },
+      leaks: {
+        enabled: true,
+        windowMinutes: 60,
+        minDurationMinutes: 20,
+        minGrowthMBPerHour: 100,
+        minR2: 0.8,
+        projectionHours: 1
       },
-      processes: { protected: [], minMemoryMB: 100 },
+      disk: { monitorInterval: 60000, defaultThreshold: 90, thresholds: [] },
+      network: { excludeInterfaces: ['lo'], retentionDays: 7 },
+      commands: { abandonTimeout: 21600000 },
+      redaction: { enabled: true, rules: [] },
+      sessions: { idleTimeout: 86400000 },
+      rules: DEFAULT_COMMAND_RULES,
       database: { path: './data/activity.db' },
       logging: { level: 'info', console: true }
     };
@@ -66,16 +357,111 @@ export function loadConfig(): Config {
       cooldown: env.RAM_COOLDOWN ? Number(env.RAM_COOLDOWN) : base.ram.cooldown,
       enableAutoKill: env.RAM_ENABLE_AUTOKILL
         ? env.RAM_ENABLE_AUTOKILL === 'true'
-        : base.ram.enableAutoKill
+        : base.ram.enableAutoKill,
+      trigger: (env.RAM_TRIGGER as RAMTrigger) || base.ram.trigger || 'percent',
+      psi: {
+        someAvg10: env.RAM_PSI_SOME_AVG10
+          ? Number(env.RAM_PSI_SOME_AVG10)
+          : base.ram.psi?.someAvg10 ?? 25,
+        fullAvg10: env.RAM_PSI_FULL_AVG10
+          ? Number(env.RAM_PSI_FULL_AVG10)
+          : base.ram.psi?.fullAvg10 ?? 10
+      },
+      dwell: env.RAM_DWELL ? Number(env.RAM_DWELL) : base.ram.dwell ?? 10000,
+      policy: loadPolicy(env.RAM_POLICY, base.ram.policy),
+      detectionRetentionDays: env.RAM_DETECTION_RETENTION_DAYS
+        ? Number(env.RAM_DETECTION_RETENTION_DAYS)
+        : base.ram.detectionRetentionDays ?? 30
+    },
+    cgroup: {
+      path: env.CGROUP_PATH ?? base.cgroup?.path ?? 'auto'
     },
     processes: {
       protected: env.PROTECTED_PROCESSES
         ? env.PROTECTED_PROCESSES.split(',').map(s => s.trim()).filter(Boolean)
         : base.processes.protected,
+      killFirst: env.KILL_FIRST_PROCESSES
+        ? env.KILL_FIRST_PROCESSES.split(',').map(s => s.trim()).filter(Boolean)
+        : base.processes.killFirst ?? [],
       minMemoryMB: env.MIN_PROCESS_MEMORY_MB
         ? Number(env.MIN_PROCESS_MEMORY_MB)
-        : base.processes.minMemoryMB
+        : base.processes.minMemoryMB,
+      sampleInterval: env.PROCESS_SAMPLE_INTERVAL
+        ? Number(env.PROCESS_SAMPLE_INTERVAL)
+        : base.processes.sampleInterval ?? 30000,
+      sampleTopN: env.PROCESS_SAMPLE_TOP_N
+        ? Number(env.PROCESS_SAMPLE_TOP_N)
+        : base.processes.sampleTopN ?? 15,
+      sampleRetentionDays: env.PROCESS_SAMPLE_RETENTION_DAYS
+        ? Number(env.PROCESS_SAMPLE_RETENTION_DAYS)
+        : base.processes.sampleRetentionDays ?? 7,
+      killTarget: (env.KILL_TARGET as KillTarget) || base.processes.killTarget || 'process'
+    },
+    forecast: {
+      windowMinutes: base.forecast?.windowMinutes ?? 15,
+      horizonMinutes: env.RAM_FORECAST_HORIZON
+        ? Number(env.RAM_FORECAST_HORIZON)
+        : base.forecast?.horizonMinutes ?? 5,
+      minConfidence: base.forecast?.minConfidence ?? 'medium',
+      webhook: env.RAM_FORECAST_WEBHOOK || base.forecast?.webhook
+    },
+    rollups: {
+      interval: env.ROLLUP_INTERVAL ? Number(env.ROLLUP_INTERVAL) : base.rollups?.interval ?? 60000,
+      retentionDays: {
+        raw: env.RAW_STATS_RETENTION_DAYS
+          ? Number(env.RAW_STATS_RETENTION_DAYS)
+          : base.rollups?.retentionDays?.raw ?? 7,
+        '1m': base.rollups?.retentionDays?.['1m'] ?? 30,
+        '1h': base.rollups?.retentionDays?.['1h'] ?? 365,
+        '1d': base.rollups?.retentionDays?.['1d'] ?? 0
+      }
+    },
+    leaks: {
+      enabled: env.LEAK_DETECTION_ENABLED
+        ? env.LEAK_DETECTION_ENABLED === 'true'
+        : base.leaks?.enabled ?? true,
+      windowMinutes: base.leaks?.windowMinutes ?? 60,
+      minDurationMinutes: base.leaks?.minDurationMinutes ?? 20,
+      minGrowthMBPerHour: env.LEAK_MIN_GROWTH_MB_PER_HOUR
+        ? Number(env.LEAK_MIN_GROWTH_MB_PER_HOUR)
+        : base.leaks?.minGrowthMBPerHour ?? 100,
+      minR2: base.leaks?.minR2 ?? 0.8,
+      projectionHours: base.leaks?.projectionHours ?? 1
+    },
+    disk: {
+      monitorInterval: env.DISK_MONITOR_INTERVAL
+        ? Number(env.DISK_MONITOR_INTERVAL)
+        : base.disk?.monitorInterval ?? 60000,
+      defaultThreshold: env.DISK_THRESHOLD
+        ? Number(env.DISK_THRESHOLD)
+        : base.disk?.defaultThreshold ?? 90,
+      thresholds: base.disk?.thresholds ?? []
+    },
+    network: {
+      excludeInterfaces: env.NET_EXCLUDE_INTERFACES
+        ? env.NET_EXCLUDE_INTERFACES.split(',').map(s => s.trim()).filter(Boolean)
+        : base.network?.excludeInterfaces ?? ['lo'],
+      retentionDays: env.NET_RETENTION_DAYS
+        ? Number(env.NET_RETENTION_DAYS)
+        : base.network?.retentionDays ?? 7
+    },
+    commands: {
+      abandonTimeout: env.COMMAND_ABANDON_TIMEOUT
+        ? Number(env.COMMAND_ABANDON_TIMEOUT)
+        : base.commands?.abandonTimeout ?? 21600000
+    },
+    redaction: {
+      enabled: env.REDACTION_ENABLED
+        ? env.REDACTION_ENABLED === 'true'
+        : base.redaction?.enabled ?? true,
+      rules: base.redaction?.rules ?? []
+    },
+    sessions: {
+      idleTimeout: env.SESSION_IDLE_TIMEOUT
+        ? Number(env.SESSION_IDLE_TIMEOUT)
+        : base.sessions?.idleTimeout ?? 86400000
     },
+    rules: loadRules(base.rules),
     database: {
       path: env.DB_PATH || base.database.path
     },
@@ -0,0 +1,435 @@
+export interface ShellToken {
+  type: 'word' | 'operator' | 'redirect';
+  value: string;
+}
+
+export interface SimpleCommand {
+  program: string;               // basename of argv0 after unwrapping
+  args: string[];                // arguments after the program
+  subcommand: string | null;     // e.g. "git commit", "docker compose up"
+  env: Record<string, string>;   // leading VAR=value assignments
+  wrappers: string[];            // sudo, env, nohup, time, ...
+}
+
+export interface ParsedCommandLine {
+  commands: SimpleCommand[];
+  programs: string[];            // distinct program names in order of appearance
+  base_cmd: string | null;       // program of the first simple command
+  subcommand: string | null;     // subcommand of the first command that has one
+}
+
+// Control operators that separate simple commands
+const OPERATORS = ['&&', '||', ';;', '|&', '|', ';', '&', '(', ')', '\n'];
+
+// Wrappers run another command; value lists the options that consume an argument
+const WRAPPERS: Record<string, string[]> = {
+  sudo: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '--user', '--group', '--chdir', '--prompt'],
+  doas: ['-u', '-C'],
+  env: ['-u', '--unset', '-C', '--chdir', '-S', '--split-string'],
+  nohup: [],
+  time: ['-f', '--format', '-o', '--output'],
+  nice: ['-n', '--adjustment'],
+  ionice: ['-c', '--class', '-n', '--classdata', '-p', '--pid'],
+  timeout: ['-s', '--signal', '-k', '--kill-after'],
+  stdbuf: ['-i', '-o', '-e', '--input', '--output', '--error'],
+  command: [],
+  builtin: [],
+  exec: ['-a'],
+  caffeinate: [],
+  chronic: []
+};
+
+// Wrappers whose first positional argument is not the wrapped command
+const WRAPPER_POSITIONALS: Record<string, number> = {
+  timeout: 1 // timeout DURATION COMMAND
+};
+
+// Shell keywords that start compound commands
+const SKIPPED_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}', 'esac']);
+const LOOP_HEADERS = new Set(['for', 'case', 'select', 'function']);
+
+interface SubcommandSpec {
+  valueOptions?: string[];       // global options that take a value before the subcommand
+  nested?: string[] | '*';       // subcommands that have their own subcommand
+}
+
+const DOCKER_NESTED = [
+  'compose', 'container', 'image', 'network', 'volume', 'system', 'buildx', 'builder',
+  'context', 'plugin', 'swarm', 'node', 'service', 'stack', 'secret', 'config', 'manifest', 'trust'
+];
+
+const SUBCOMMAND_PROGRAMS: Record<string, SubcommandSpec> = {
+  git: { valueOptions: ['-C', '-c', '--git-dir', '--work-tree', '--namespace'] },
+  docker: { valueOptions: ['-H', '--host', '--context', '-c', '--config', '-l', '--log-level', '-f', '--file', '-p', '--project-name', '--profile', '--env-file'], nested: DOCKER_NESTED },
+  podman: { valueOptions: ['--url', '-c', '--connection', '--log-level'], nested: DOCKER_NESTED },
+  'docker-compose': { valueOptions: ['-f', '--file', '-p', '--project-name', '--profile', '--env-file'] },
+  kubectl: { valueOptions: ['-n', '--namespace', '--context', '--kubeconfig', '--cluster', '--user', '-s', '--server'], nested: ['config', 'rollout', 'auth', 'certificate', 'create', 'set'] },
+  helm: { valueOptions: ['-n', '--namespace', '--kube-context', '--kubeconfig'], nested: ['repo', 'plugin', 'registry'] },
+  gh: { valueOptions: ['-R', '--repo'], nested: '*' },
+  systemctl: { valueOptions: ['-t', '--type', '-p', '--property', '-H', '--host', '-M', '--machine', '-s', '--signal'] },
+  npm: { valueOptions: ['-w', '--workspace', '--prefix'], nested: ['run', 'run-script'] },
+  pnpm: { valueOptions: ['-C', '--dir', '-F', '--filter'], nested: ['run'] },
+  yarn: { valueOptions: ['--cwd'], nested: ['run', 'workspace'] },
+  bun: { valueOptions: ['--cwd', '-c', '--config'], nested: ['run', 'pm'] },
+  cargo: { valueOptions: ['-C', '--config', '-Z'] },
+  go: {},
+  terraform: {},
+  tofu: {},
+  apt: {},
+  'apt-get': {},
+  dnf: {},
+  brew: {},
+  pip: {},
+  pip3: {},
+  uv: {},
+  poetry: {},
+  aws: { valueOptions: ['--profile', '--region', '--output', '--endpoint-url'], nested: '*' },
+  gcloud: { valueOptions: ['--project', '--account', '--configuration'], nested: '*' },
+  az: { nested: '*' },
+  flatpak: {},
+  snap: {},
+  journalctl: {},
+  ip: { valueOptions: ['-n', '-netns', '-f', '-family'] }
+};
+
+/**
+ * Shell-aware command line parsing: quoting, env assignments, wrappers,
+ * pipelines and command lists. Not a full shell grammar — it only needs to
+ * find which programs a command line runs.
+ */
+export class ShellParser {
+  /**
+   * Split a command line into words, control operators and redirections
+   */
+  tokenize(input: string): ShellToken[] {
+    const tokens: ShellToken[] = [];
+    let word = '';
+    let inWord = false;
+    let i = 0;
+
+    const pushWord = () => {
+      if (inWord) {
+        tokens.push({ type: 'word', value: word });
+      }
+      word = '';
+      inWord = false;
+    };
+
+    while (i < input.length) {
+      const char = input[i];
+
+      // Comments only start at the beginning of a word
+      if (char === '#' && !inWord) {
+        while (i < input.length && input[i] !== '\n') i++;
+        continue;
+      }
+
+      if (char === ' ' || char === '\t') {
+        pushWord();
+        i++;
+        continue;
+      }
+
+      if (char === '\\') {
+        if (input[i + 1] === '\n') {
+          i += 2; // Line continuation
+          continue;
+        }
+        word += input[i + 1] ?? '';
+        inWord = true;
+        i += 2;
+        continue;
+      }
+
+      if (char === "'") {
+        const end = input.indexOf("'", i + 1);
+        const stop = end === -1 ? input.length : end;
+        word += input.slice(i + 1, stop);
+        inWord = true;
+        i = stop + 1;
+        continue;
+      }
+
+      if (char === '$' && input[i + 1] === "'") {
+        // ANSI-C quoting: keep the content, escapes are irrelevant for program names
+        let j = i + 2;
+        while (j < input.length && input[j] !== "'") {
+          j += input[j] === '\\' ? 2 : 1;
+        }
+        word += input.slice(i + 2, Math.min(j, input.length));
+        inWord = true;
+        i = j + 1;
+        continue;
+      }
+
+      if (char === '"') {
+        let j = i + 1;
+        while (j < input.length && input[j] !== '"') {
+          if (input[j] === '\\' && j + 1 < input.length) {
+            word += input[j + 1];
+            j += 2;
+          } else {
+            word += input[j];
+            j++;
+          }
+        }
+        inWord = true;
+        i = j + 1;
+        continue;
+      }
+
+      if (char === '$' && input[i + 1] === '(') {
+        // Command/arithmetic substitution stays part of the word
+        const end = this.findClosing(input, i + 1, '(', ')');
+        word += input.slice(i, end + 1);
+        inWord = true;
+        i = end + 1;
+        continue;
+      }
+
+      if (char === '`') {
+        const end = input.indexOf('`', i + 1);
+        const stop = end === -1 ? input.length - 1 : end;
+        word += input.slice(i, stop + 1);
+        inWord = true;
+        i = stop + 1;
+        continue;
+      }
+
+      // Redirections: [n]>, >>, <, <<, <<<, &>, >&, [n]>&m
+      if (char === '>' || char === '<' || (char === '&' && input[i + 1] === '>')) {
+        const fdPrefix = inWord && /^\d+$/.test(word) ? word : '';
+        if (fdPrefix) {
+          word = '';
+          inWord = false;
+        } else {
+          pushWord();
+        }
+
+        const match = input.slice(i).match(/^(&>>?|>>?&?|<<<|<<-?|<>|<&?)/)!;
+        tokens.push({ type: 'redirect', value: fdPrefix + match[0] });
+        i += match[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => input.startsWith(op, i));
+      if (operator) {
+        pushWord();
+        tokens.push({ type: 'operator', value: operator });
+        i += operator.length;
+        continue;
+      }
+
+      word += char;
+      inWord = true;
+      i++;
+    }
+
+    pushWord();
+    return tokens;
+  }
+
+  /**
+   * Parse a command line into the simple commands it runs
+   */
+  parse(input: string): ParsedCommandLine {
+    const tokens = this.tokenize(input);
+    const commands: SimpleCommand[] = [];
+    let words: string[] = [];
+
+    const flush = () => {
+      const command = this.toSimpleCommand(words);
+      if (command) commands.push(command);
+      words = [];
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'operator') {
+        flush();
+      } else if (token.type === 'redirect') {
+        // Drop the redirection target (fd duplications like 2>&1 carry it inline)
+        const next = tokens[i + 1];
+        if (next && next.type === 'word') i++;
+      } else {
+        words.push(token.value);
+      }
+    }
+    flush();
+
+    const programs: string[] = [];
+    for (const command of commands) {
+      if (!programs.includes(command.program)) programs.push(command.program);
+    }
+
+    return {
+      commands,
+      programs,
+      base_cmd: commands[0]?.program ?? null,
+      subcommand: commands.find(c => c.subcommand)?.subcommand ?? null
+    };
+  }
+
+  private toSimpleCommand(words: string[]): SimpleCommand | null {
+    const env: Record<string, string> = {};
+    const wrappers: string[] = [];
+    let i = 0;
+
+    while (i < words.length) {
+      const word = words[i];
+
+      // Leading VAR=value assignments
+      const assignment = word.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s);
+      if (assignment) {
+        env[assignment[1]] = assignment[2];
+        i++;
+        continue;
+      }
+
+      if (SKIPPED_KEYWORDS.has(word)) {
+        i++;
+        continue;
+      }
+
+      // for/case/select headers don't run a program
+      if (LOOP_HEADERS.has(word)) {
+        return null;
+      }
+
+      const name = this.basename(word);
+      const valueOptions = WRAPPERS[name];
+      if (valueOptions) {
+        wrappers.push(name);
+        i = this.skipWrapperArgs(words, i + 1, name, valueOptions, env);
+        continue;
+      }
+
+      break;
+    }
+
+    if (i >= words.length) {
+      return null;
+    }
+
+    const program = this.basename(words[i]);
+    if (!program) {
+      return null;
+    }
+
+    const args = words.slice(i + 1);
+
+    return {
+      program,
+      args,
+      subcommand: this.findSubcommand(program, args),
+      env,
+      wrappers
+    };
+  }
+
+  /**
+   * Skip a wrapper's own options (and env-style assignments) to reach the wrapped command
+   */
+  private skipWrapperArgs(
+    words: string[],
+    start: number,
+    wrapper: string,
+    valueOptions: string[],
+    env: Record<string, string>
+  ): number {
+    let i = start;
+    let positionals = WRAPPER_POSITIONALS[wrapper] ?? 0;
+
+    while (i < words.length) {
+      const word = words[i];
+
+      if (word === '--') {
+        return i + 1;
+      }
+
+      if (word.startsWith('-') && word !== '-') {
+        i += valueOptions.includes(word) ? 2 : 1;
+        continue;
+      }
+
+      if (wrapper === 'env') {
+        const assignment = word.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s);
+        if (assignment) {
+          env[assignment[1]] = assignment[2];
+          i++;
+          continue;
+        }
+      }
+
+      if (positionals > 0) {
+        positionals--;
+        i++;
+        continue;
+      }
+
+      break;
+    }
+
+    return i;
+  }
+
+  /**
+   * Find "program subcommand [nested]" for tools with subcommands
+   */
+  private findSubcommand(program: string, args: string[]): string | null {
+    const spec = SUBCOMMAND_PROGRAMS[program];
+    if (!spec) return null;
+
+    const first = this.nextPositional(args, 0, spec.valueOptions || []);
+    if (!first) return null;
+
+    const parts = [program, first.value];
+    const nested = spec.nested === '*' || (spec.nested && spec.nested.includes(first.value));
+
+    if (nested) {
+      const second = this.nextPositional(args, first.index + 1, spec.valueOptions || []);
+      if (second) parts.push(second.value);
+    }
+
+    return parts.join(' ');
+  }
+
+  private nextPositional(args: string[], start: number, valueOptions: string[]): { value: string; index: number } | null {
+    for (let i = start; i < args.length; i++) {
+      const arg = args[i];
+
+      if (arg.startsWith('-')) {
+        if (valueOptions.includes(arg)) i++;
+        continue;
+      }
+
+      // Subcommands are plain words, not paths, URLs or expansions
+      if (!/^[A-Za-z][A-Za-z0-9:_.-]*$/.test(arg)) {
+        return null;
+      }
+
+      return { value: arg, index: i };
+    }
+
+    return null;
+  }
+
+  private basename(word: string): string {
+    return word.split('/').pop() || word;
+  }
+
+  private findClosing(input: string, openIndex: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = openIndex; i < input.length; i++) {
+      if (input[i] === open) depth++;
+      else if (input[i] === close) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return input.length - 1;
+  }
+}
+
+export const shellParser = new ShellParser();
@@ -1,16 +1,33 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { loadConfig, getConfig } from './src/utils/config';
 import { dbClient } from './src/db/client';
-import { ramDetector } from './src/services/ramDetector';
+import { ramDetector, RAMDetector } from './src/services/ramDetector';
 import { RAMSnapshot } from './src/services/ramMonitor';
+import { MemoryPressure } from './src/system/procParser';
 
 console.log('🧪 Testing RAM Detector Logic...\n');
 
-// Initialize
+// Initialize on a throwaway database: detection events and the saved cooldown
+// state are what a running tracker audits and restores
 loadConfig();
-dbClient.init();
+const dbDir = mkdtempSync(join(tmpdir(), 'tracker-detector-'));
+dbClient.init(join(dbDir, 'activity.db'));
+
+const testStart = Date.now();
+
+// Simulated monitor clock: each snapshot is one 5s tick after the previous one,
+// so dwell times can be tested without waiting
+let clock = Date.now();
 
 // Create mock RAM snapshot
-function createSnapshot(percent: number): RAMSnapshot {
+function createSnapshot(
+  percent: number,
+  pressure: MemoryPressure | null = null,
+  swap: { percent: number; inPerSec: number | null } = { percent: 0, inPerSec: 0 }
+): RAMSnapshot {
+  clock += 5000;
   return {
     total_mb: 16384,
     free_mb: 16384 * (1 - percent / 100),
@@ -20,12 +37,31 @@ function createSnapshot(percent: number): RAMSnapshot {
     buffers_mb: 256,
     cached_mb: 2048,
     swap_total_mb: 4096,
-    swap_free_mb: 4096,
-    swap_used_mb: 0,
-    swap_percent: 0,
-    timestamp: Date.now(),
+    swap_free_mb: 4096 * (1 - swap.percent / 100),
+    swap_used_mb: 4096 * (swap.percent / 100),
+    swap_percent: swap.percent,
+    view: 'host',
+    host: {
+      total_mb: 16384,
+      available_mb: 16384 * (1 - percent / 100),
+      used_mb: 16384 * (percent / 100),
+      percent
+    },
+    cgroup: null,
+    timestamp: clock,
     uptime: 123456,
-    load_avg: { load1: 1.5, load5: 1.8, load15: 2.0 }
+    load_avg: { load1: 1.5, load5: 1.8, load15: 2.0 },
+    pressure,
+    swap_activity: swap.inPerSec === null
+      ? null
+      : { swap_in_per_sec: swap.inPerSec, swap_out_per_sec: 0, interval_ms: 5000 }
+  };
+}
+
+function createPressure(someAvg10: number, fullAvg10: number): MemoryPressure {
+  return {
+    some: { avg10: someAvg10, avg60: someAvg10, avg300: someAvg10, total: 1000000 },
+    full: { avg10: fullAvg10, avg60: fullAvg10, avg300: fullAvg10, total: 500000 }
   };
 }
 
@@ -35,15 +71,14 @@ let result = ramDetector.checkThreshold(createSnapshot(70));
 console.log(`   Result: ${result ? '❌ TRIGGERED' : '✅ NOT TRIGGERED'}`);
 console.log();
 
-// Test 2: High RAM once - should not trigger (needs consecutive)
+// Test 2: High RAM once - should not trigger (needs to hold for the dwell time)
 console.log('Test 2: High RAM once (95%)');
 result = ramDetector.checkThreshold(createSnapshot(95));
-console.log(`   Result: ${result ? '❌ TRIGGERED' : '✅ NOT TRIGGERED (needs consecutive)'}`);
+console.log(`   Result: ${result ? '❌ TRIGGERED' : '✅ NOT TRIGGERED (within dwell time)'}`);
 console.log();
 
-// Test 3: High RAM consecutive - should trigger
-console.log('Test 3: High RAM consecutive (95%, 95%, 95%)');
-ramDetector.checkThreshold(createSnapshot(95));
+// Test 3: High RAM held for the 10s dwell time - should trigger
+console.log('Test 3: High RAM sustained (95% for 10s)');
 ramDetector.checkThreshold(createSnapshot(95));
 result = ramDetector.checkThreshold(createSnapshot(95));
 console.log(`   Result: ${result ? '✅ TRIGGERED' : '❌ NOT TRIGGERED'}`);
@@ -91,6 +126,111 @@ if (history.length > 0) {
 }
 console.log();
 
+// Test 9: PSI-based triggers
+console.log('Test 9: PSI triggers');
+const ramConfig = getConfig().ram;
+const originalTrigger = ramConfig.trigger;
+ramDetector.resetCooldown();
+
+ramConfig.trigger = 'psi';
+let evaluation = ramDetector.evaluatePressure(createSnapshot(95, createPressure(1, 0)));
+console.log(`   psi: 95% with no stalls → ${evaluation.high ? '❌ HIGH' : '✅ NOT HIGH'}`);
+evaluation = ramDetector.evaluatePressure(createSnapshot(60, createPressure(40, 15)));
+console.log(`   psi: 60% while stalling → ${evaluation.high ? '✅ HIGH' : '❌ NOT HIGH'} [${evaluation.reasons.join(', ')}]`);
+
+ramConfig.trigger = 'percent_and_psi';
+evaluation = ramDetector.evaluatePressure(createSnapshot(95, createPressure(1, 0)));
+console.log(`   percent_and_psi: 95% with no stalls → ${evaluation.high ? '❌ HIGH' : '✅ NOT HIGH'}`);
+evaluation = ramDetector.evaluatePressure(createSnapshot(95, null));
+console.log(`   percent_and_psi without PSI support → ${evaluation.high ? '✅ HIGH (percent fallback)' : '❌ NOT HIGH'}`);
+
+ramConfig.trigger = 'percent_or_psi';
+for (let i = 0; i < 5; i++) {
+  result = ramDetector.checkThreshold(createSnapshot(60, createPressure(50, 20)));
+  if (result) break;
+}
+console.log(`   percent_or_psi: sustained stalls at 60% → ${result ? '✅ TRIGGERED' : '❌ NOT TRIGGERED'}`);
+
+ramConfig.trigger = originalTrigger;
+ramDetector.resetCooldown();
+console.log();
+
+// Test 10: Policy conditions with hysteresis and swap
+console.log('Test 10: Detection policies');
+ramConfig.policy = { metric: 'available_mb', below: 2048, clear: 3072, dwell: 0 };
+result = ramDetector.checkThreshold(createSnapshot(90));
+console.log(`   available_mb < 2048 (1638MB, no dwell) → ${result ? '✅ TRIGGERED' : '❌ NOT TRIGGERED'}`);
+ramDetector.checkThreshold(createSnapshot(90));
+ramDetector.checkThreshold(createSnapshot(85));
+let consecutive = ramDetector.getStats().consecutiveHighRAM;
+console.log(`   2457MB is above 2048 but below the 3072 clear level → ${consecutive === 2 ? '✅ STILL HIGH' : `❌ consecutive ${consecutive}`}`);
+ramDetector.checkThreshold(createSnapshot(80));
+consecutive = ramDetector.getStats().consecutiveHighRAM;
+console.log(`   3276MB crosses the clear level → ${consecutive === 0 ? '✅ CLEARED' : `❌ consecutive ${consecutive}`}`);
+
+ramDetector.resetCooldown();
+ramConfig.policy = {
+  all: [
+    { metric: 'swap_percent', above: 50, dwell: 5000 },
+    { metric: 'swap_in_rate', above: 100, dwell: 5000 }
+  ]
+};
+ramDetector.checkThreshold(createSnapshot(60, null, { percent: 75, inPerSec: 500 }));
+result = ramDetector.checkThreshold(createSnapshot(60, null, { percent: 75, inPerSec: 500 }));
+console.log(`   swap 75% AND 500 pages/s swap-in for 5s at 60% RAM → ${result ? '✅ TRIGGERED' : '❌ NOT TRIGGERED'}`);
+ramDetector.resetCooldown();
+ramDetector.checkThreshold(createSnapshot(60, null, { percent: 75, inPerSec: 0 }));
+result = ramDetector.checkThreshold(createSnapshot(60, null, { percent: 75, inPerSec: 0 }));
+console.log(`   swap 75% but no swap-in → ${result ? '❌ TRIGGERED' : '✅ NOT TRIGGERED'}`);
+
+ramConfig.policy = undefined;
+ramDetector.resetCooldown();
+console.log();
+
+// Test 11: Cooldown backoff and detection history survive a restart
+console.log('Test 11: Restoring state after a restart');
+ramConfig.policy = { metric: 'percent', above: 90, dwell: 0 };
+ramDetector.checkThreshold(createSnapshot(95));
+ramDetector.checkThreshold(createSnapshot(95));
+const restarted = new RAMDetector();
+restarted.restoreState();
+const restored = restarted.getStats();
+const before = ramDetector.getStats();
+const restoredOk = restored.cooldownMultiplier === before.cooldownMultiplier &&
+  restored.isInCooldown && restored.lastTriggerTime === before.lastTriggerTime;
+console.log(`   Multiplier ${restored.cooldownMultiplier}x, in cooldown: ${restored.isInCooldown} ` +
+  `${restoredOk ? '✅ RESTORED' : '❌ NOT RESTORED'}`);
+result = restarted.checkThreshold(createSnapshot(95));
+console.log(`   High RAM right after the restart → ${result ? '❌ TRIGGERED' : '✅ BLOCKED BY COOLDOWN'}`);
+
+const triggered = restarted.getHistory(100, testStart, Date.now(), 'triggered');
+const held = restarted.getHistory(1, testStart, Date.now(), 'cooldown');
+const lastHeld = held[held.length - 1];
+console.log(`   ${triggered.length} triggered events since the test started ${triggered.length >= 4 ? '✅' : '❌ (expected at least 4)'}`);
+console.log(`   Latest cooldown event: ${lastHeld?.cooldown_remaining_ms}ms left ` +
+  `${lastHeld && lastHeld.cooldown_remaining_ms! > 0 ? '✅' : '❌'}`);
+const future = restarted.getHistory(100, Date.now() + 60 * 1000);
+console.log(`   Events in the future: ${future.length} ${future.length === 0 ? '✅' : '❌'}`);
+
+ramConfig.policy = undefined;
+restarted.resetCooldown();
+ramDetector.resetCooldown();
+console.log();
+
+// Test 12: Detection events past their retention are pruned as new ones are written
+console.log('Test 12: Pruning old detection events');
+const expiredAt = Date.now() - (ramConfig.detectionRetentionDays + 1) * 24 * 60 * 60 * 1000;
+dbClient.insertDetectionEvent({
+  outcome: 'dwell', ram_percent: 95, threshold: 88, psi_some_avg10: null, psi_full_avg10: null,
+  reasons: '[]', pending: '["percent"]', consecutive_count: 1, cooldown_multiplier: 1,
+  cooldown_remaining_ms: null, created_at: expiredAt
+});
+new RAMDetector().checkThreshold(createSnapshot(95));
+const expired = dbClient.getDetectionEvents(0, expiredAt).length;
+console.log(`   Events older than ${ramConfig.detectionRetentionDays} days: ${expired} ${expired === 0 ? '✅ PRUNED' : '❌ KEPT'}`);
+console.log();
+
 console.log('🎉 All detector tests complete!\n');
 
 dbClient.close();
+rmSync(dbDir, { recursive: true, force: true });
@@ -0,0 +1,63 @@
+import { historyImporter } from './src/services/historyImporter';
+import { loadConfig } from './src/utils/config';
+import { dbClient } from './src/db/client';
+
+console.log('🧪 Testing History Import...\n');
+
+loadConfig();
+dbClient.init();
+
+// Test 1: bash history with HISTTIMEFORMAT timestamps and a multi-line entry
+console.log('1. Parsing bash history...');
+const bashHistory = [
+  '#1700000000',
+  'git status',
+  '#1700000060',
+  'for f in *.log; do',
+  '  gzip "$f"',
+  'done',
+  '#1700000120',
+  'export API_TOKEN=abc123 && make deploy'
+].join('\n');
+const bashEntries = historyImporter.parseBashHistory(bashHistory);
+console.log(`✅ Parsed ${bashEntries.length} entries`);
+console.log(`   Multi-line entry: ${JSON.stringify(bashEntries[1].cmd)}`);
+console.log();
+
+// Test 2: zsh extended history with elapsed time and continuation lines
+console.log('2. Parsing zsh extended history...');
+const zshHistory = [
+  ': 1700000200:0;ls -la',
+  ': 1700000210:12;docker build \\',
+  '  -t app .',
+  ': 1700000300:3;echo done'
+].join('\n');
+const zshEntries = historyImporter.parseZshHistory(zshHistory);
+console.log(`✅ Parsed ${zshEntries.length} entries`);
+console.log(`   ${JSON.stringify(zshEntries[1].cmd)} took ${zshEntries[1].duration_ms}ms`);
+console.log(`   Detected format: ${historyImporter.detectFormat(zshHistory)}`);
+console.log();
+
+// Test 3: Import and re-import (second run must be all duplicates)
+console.log('3. Importing zsh history twice...');
+const user = `history-test-${Date.now()}`;
+const first = historyImporter.import(zshHistory, { user });
+const second = historyImporter.import(zshHistory, { user });
+console.log(`✅ First run: ${first.inserted} inserted`);
+console.log(`✅ Second run: ${second.inserted} inserted, ${second.duplicates} duplicates`);
+console.log();
+
+// Test 4: Untimed bash history is skipped
+console.log('4. Importing bash history without timestamps...');
+const untimed = historyImporter.import('ls\ncd /tmp\n', { format: 'bash', user });
+console.log(`✅ Skipped ${untimed.skipped_untimed} untimed entries\n`);
+
+// Test 5: Secrets are redacted on import
+console.log('5. Checking redaction of imported entries...');
+historyImporter.import(bashHistory, { format: 'bash', user });
+const imported = dbClient.listCommands({ user, limit: 10 }).commands;
+console.log(`✅ ${imported.find(c => c.cmd.includes('make deploy'))?.cmd} (status: ${imported[0]?.status}, source: ${imported[0]?.source})\n`);
+
+console.log('🎉 All history import tests complete!\n');
+
+dbClient.close();
@@ -25,8 +25,17 @@ if (killable.length > 0) {
   console.log(`   Estimated memory freed: ${dryRun.estimated_memory_mb}MB\n`);
 }
 
+// Application dry run: groups are judged by their summed unique memory
+console.log('3. Dry run by application...');
+const appDryRun = processManager.getDryRun(3, 'app');
+console.log(`✅ Would kill ${appDryRun.apps?.length} applications (${appDryRun.targets.length} processes):`);
+appDryRun.apps?.forEach(app => {
+  console.log(`   - ${app.name} (root PID ${app.root_pid}, ${app.process_count} processes): ${app.unique_mb}MB unique`);
+});
+console.log(`   Estimated memory freed: ${appDryRun.estimated_memory_mb}MB\n`);
+
 // Stats
-console.log('3. Getting killed process stats...');
+console.log('4. Getting killed process stats...');
 const stats = processManager.getKilledProcessStats();
 console.log('✅ Kill Statistics:', stats);
 console.log();
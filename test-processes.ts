@@ -1,5 +1,15 @@
+import { mkdtempSync, copyFileSync, chmodSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { processScanner } from './src/system/processScanner';
-import { loadConfig } from './src/utils/config';
+import { processReader } from './src/system/processReader';
+import { appGrouper } from './src/system/appGrouper';
+import { processKiller } from './src/system/processKiller';
+import { cgroupResolver } from './src/system/cgroupResolver';
+import { loadConfig, getConfig } from './src/utils/config';
+import { dbClient } from './src/db/client';
+import { processSampler } from './src/services/processSampler';
+import { leakDetector } from './src/services/leakDetector';
 
 console.log('🧪 Testing Process Scanner...\n');
 
@@ -62,4 +72,170 @@ const currentValidation = processScanner.validateProcess(process.pid);
 console.log(`✅ Current PID ${process.pid} validation:`, currentValidation);
 console.log();
 
+// Test 7: Sample top processes and read their history back
+console.log('Test 7: Sampling top processes...');
+const sampleDir = mkdtempSync(join(tmpdir(), 'tracker-processes-'));
+dbClient.init(join(sampleDir, 'activity.db'));
+const sampleStart = Date.now();
+const staleSampleAt = sampleStart - (getConfig().processes.sampleRetentionDays + 1) * 24 * 60 * 60 * 1000;
+dbClient.insertProcessSamples([{ pid: 999998, name: 'stale-sample', rss_kb: 1024, cpu_percent: 0, created_at: staleSampleAt }]);
+const sampled = processSampler.sample(sampleStart);
+processSampler.sample(sampleStart + 1000);
+console.log(`✅ Sampled ${sampled} processes per tick`);
+const staleSamples = dbClient.getProcessSamplesByPid(999998, staleSampleAt - 1, sampleStart).length;
+console.log(`${staleSamples === 0 ? '✅' : '❌'} Samples past the retention are pruned (${staleSamples} left)`);
+if (allProcesses.length > 0) {
+  const pidHistory = processSampler.getPidHistory(allProcesses[0].pid, sampleStart, sampleStart + 1000);
+  console.log(`   PID ${pidHistory.pid} (${pidHistory.name}): ${pidHistory.samples.length} samples`, pidHistory.samples[0]);
+  const nameHistory = processSampler.getNameHistory(allProcesses[0].command, sampleStart, sampleStart + 1000);
+  console.log(`   ${nameHistory.name}: ${nameHistory.samples.length} samples`, nameHistory.samples[0]);
+}
+console.log();
+
+// Test 8: Leak detection on a synthetic, steadily growing process
+console.log('Test 8: Detecting a steadily growing process...');
+const leakStart = Date.now() - 30 * 60 * 1000;
+const fakeProcess = { pid: 999999, user: 'test', command: 'leaky-server', full_command: 'leaky-server --stdio', ppid: 1, state: 'S', vsz_kb: 0, memory_percent: 0, cpu_percent: 0, memory_mb: 0, rss_kb: 0,
+  uid: 0, exe: null, pss_kb: null, uss_kb: null, swap_kb: 0, oom_score: null, oom_score_adj: null, start_time: 0,
+  cgroup: null, unit: null, container_id: null, unique_mb: 0 };
+for (let i = 0; i <= 6; i++) {
+  // +100MB every 5 minutes (1200MB/h) with a little noise
+  const rssMb = 500 + i * 100 + (i % 2 === 0 ? 5 : -5);
+  leakDetector.observe([{ ...fakeProcess, rss_kb: rssMb * 1024 }], leakStart + i * 5 * 60 * 1000);
+}
+const leaks = leakDetector.getLeaks();
+console.log(`✅ Suspects: ${leaks.length}`);
+leaks.forEach(l => {
+  console.log(`   ${l.name} (${l.pid}): +${l.growth_mb_per_hour}MB/h (r²=${l.r2}), ${l.rss_mb}MB now, ` +
+    `${l.projected_mb}MB in ${l.projection_hours}h`);
+});
+const leakEvents = dbClient.getEvents('memory_leak_suspected', undefined, 1);
+console.log(`   Latest event: ${leakEvents[0]?.message}`);
+dbClient.close();
+rmSync(sampleDir, { recursive: true });
+console.log();
+
+// Test 9: Native /proc reader handles names with spaces and parentheses
+console.log('Test 9: Reading an oddly named process from /proc...');
+const oddDir = mkdtempSync(join(tmpdir(), 'tracker-proc-'));
+const oddBinary = join(oddDir, 'my app (test) x');
+copyFileSync('/bin/sleep', oddBinary);
+chmodSync(oddBinary, 0o755);
+const odd = Bun.spawn([oddBinary, '30']);
+await Bun.sleep(200);
+const details = processReader.read(odd.pid);
+console.log(`✅ PID ${odd.pid}: name "${details?.name}", state ${details?.state}, ppid ${details?.ppid} (expected ${process.pid})`);
+console.log(`   exe: ${details?.exe}, cmdline: ${JSON.stringify(details?.cmdline)}`);
+console.log(`   RSS ${details?.rss_kb}kB, PSS ${details?.pss_kb}kB, USS ${details?.uss_kb}kB, swap ${details?.swap_kb}kB`);
+console.log(`   oom_score ${details?.oom_score} (adj ${details?.oom_score_adj}), started ${Date.now() - (details?.start_time ?? 0)}ms ago`);
+const scanned = processScanner.getProcessByPid(odd.pid);
+console.log(`   Scanner: ${scanned?.command}, ${scanned?.unique_mb}MB unique of ${scanned?.memory_mb}MB RSS`);
+odd.kill();
+await odd.exited;
+rmSync(oddDir, { recursive: true });
+console.log();
+
+// Test 10: Kill candidates are ranked by unique memory
+console.log('Test 10: Ranking kill candidates by unique memory...');
+const ranked = processScanner.getKillableProcesses();
+const sorted = ranked.every((p, i) => i === 0 || ranked[i - 1].unique_mb >= p.unique_mb);
+console.log(`${sorted ? '✅' : '❌'} ${ranked.length} candidates sorted by USS`);
+ranked.slice(0, 3).forEach(p => {
+  console.log(`   ${p.command} (PID ${p.pid}): ${p.unique_mb}MB unique, ${p.memory_mb}MB RSS, PSS ${p.pss_kb}kB`);
+});
+console.log();
+
+// Test 11: A parent and its helpers form one application, killed together
+console.log('Test 11: Grouping a spawned app and killing it as a whole...');
+const app = Bun.spawn([process.execPath, '-e', "for (let i = 0; i < 3; i++) Bun.spawn(['sleep', '60']); await Bun.sleep(60000);"]);
+let group = null;
+for (let i = 0; i < 30 && (group?.process_count ?? 0) < 4; i++) {
+  await Bun.sleep(100);
+  group = appGrouper.getApps().find(g => g.root_pid === app.pid) ?? null;
+}
+console.log(`${group?.process_count === 4 ? '✅' : '❌'} ${group?.name} (root ${group?.root_pid}): ` +
+  `${group?.process_count} processes, ${group?.unique_mb}MB unique, ${group?.memory_mb}MB RSS, ${group?.pss_mb}MB PSS`);
+const node = appGrouper.getTree().flatMap(function walk(n): typeof n[] { return [n, ...n.children.flatMap(walk)]; })
+  .find(n => n.pid === app.pid);
+console.log(`   Tree: ${node?.command} has ${node?.children.length} children, ${node?.subtree_unique_mb}MB in its subtree`);
+if (group) {
+  const killed = await processKiller.killGroup(group, 'Test cleanup');
+  // The root stays a zombie until this test reaps it
+  const gone = group.pids.every(pid => (processScanner.getProcessByPid(pid)?.state ?? 'Z') === 'Z');
+  console.log(`${killed.success && gone ? '✅' : '❌'} Killed ${killed.results.length} processes with ${killed.signal} ` +
+    `(${killed.memory_freed_mb}MB freed)`);
+}
+app.kill();
+await app.exited;
+console.log();
+
+// Test 12: cgroup paths are attributed to units and containers, and rules can match them
+console.log('Test 12: Attributing cgroups to units and containers...');
+const containerId = 'c0ffee'.padEnd(64, '0');
+const user = '/user.slice/user-1000.slice/user@1000.service';
+const cgroupCases: [string, string | null][] = [
+  [`${user}/app.slice/app-gnome-firefox-4242.scope`, 'unit app-gnome-firefox-4242.scope (firefox)'],
+  [`${user}/app.slice/app-org.kde.konsole@3f2a.service`, 'unit app-org.kde.konsole@3f2a.service (org.kde.konsole)'],
+  [`${user}/app.slice/code.service`, 'unit code.service (code)'],
+  ['/user.slice/user-1000.slice/session-3.scope', 'unit session-3.scope (null)'],
+  [`/system.slice/docker-${containerId}.scope`, 'docker container c0ffee000000'],
+  [`${user}/user.slice/libpod-${containerId}.scope/container`, 'podman container c0ffee000000'],
+  [`/docker/${containerId}`, 'docker container c0ffee000000'],
+  ['/', null]
+];
+for (const [path, expected] of cgroupCases) {
+  const owner = cgroupResolver.resolve(path);
+  const actual = !owner ? null
+    : owner.kind === 'unit' ? `unit ${owner.unit} (${owner.app})` : `${owner.runtime} container ${owner.name}`;
+  console.log(`   ${path.replace(user, '~')} → ${actual} ${actual === expected ? '✅' : `❌ (expected ${expected})`}`);
+}
+const inUnit = { ...fakeProcess, command: 'firefox', unit: 'app-gnome-firefox-4242.scope', container_id: null };
+const inContainer = { ...fakeProcess, command: 'node', unit: `docker-${containerId}.scope`, container_id: containerId };
+const ruleCases: [string, typeof fakeProcess, boolean][] = [
+  ['unit:app-*-firefox-*.scope', inUnit, true],
+  ['unit:code.service', inUnit, false],
+  ['container:c0ffee', inContainer, true],
+  ['container:c0ffee', inUnit, false],
+  ['container:*', inContainer, true],
+  ['fire', inUnit, true]
+];
+for (const [rule, proc, expected] of ruleCases) {
+  const matched = processScanner.isProtected(proc, [rule]);
+  console.log(`   "${rule}" protects ${proc.command}: ${matched} ${matched === expected ? '✅' : '❌'}`);
+}
+console.log();
+
+// Test 13: An Electron app is one group under the shipped protected list, whose
+// short entries ("sh", "i3") appear in every helper's command line
+console.log('Test 13: Grouping an Electron app with the default config...');
+const protectedList = getConfig().processes.protected;
+const electron = { ...fakeProcess, command: 'code', exe: '/usr/share/code/code', unique_mb: 60, ppid: 999990 };
+const electronApp = [
+  { ...electron, pid: 999991, full_command: '/usr/share/code/code' },
+  { ...electron, pid: 999992, ppid: 999991, full_command: '/usr/share/code/code --type=zygote --no-zygote-sandbox' },
+  { ...electron, pid: 999993, ppid: 999992, full_command: '/usr/share/code/code --type=renderer --shared-files=v8_context_snapshot_data:100' },
+  { ...electron, pid: 999994, ppid: 999991, full_command: '/usr/share/code/code --type=utility --utility-sub-type=node.mojom.NodeService' },
+  { ...electron, pid: 999995, ppid: 999991, command: 'sh', exe: '/usr/bin/dash', full_command: 'sh -c git status' }
+];
+const electronGroups = appGrouper.getApps(electronApp);
+const codeGroup = electronGroups.find(g => g.root_pid === 999991);
+const shGroup = electronGroups.find(g => g.root_pid === 999995);
+console.log(`   "sh" and "i3" protected: ${protectedList.includes('sh') && protectedList.includes('i3') ? '✅' : '⚠️  not in config.json'}`);
+console.log(`   code: ${codeGroup?.process_count} processes, killable ${codeGroup?.killable}, blocked by ${codeGroup?.blocked_by} ` +
+  `${codeGroup?.process_count === 4 && codeGroup.killable ? '✅' : '❌ (expected 4 killable processes)'}`);
+console.log(`   sh helper: its own group, blocked by ${shGroup?.blocked_by} ${shGroup?.blocked_by ? '✅' : '❌'}`);
+// Truncated comm, exe unreadable
+const keyring = { ...fakeProcess, command: 'gnome-keyring-d', exe: null };
+const exactCases: [string, typeof fakeProcess, boolean][] = [
+  ['sh', electronApp[2], false],
+  ['code', electronApp[2], true],
+  ['gnome-keyring-daemon', keyring, true],
+  ['gnome-keyring', keyring, false]
+];
+for (const [rule, proc, expected] of exactCases) {
+  const matched = processScanner.isProtected(proc, [rule], true);
+  console.log(`   "${rule}" protects ${proc.command} by name: ${matched} ${matched === expected ? '✅' : '❌'}`);
+}
+console.log();
+
 console.log('🎉 All process scanner tests complete!\n');
@@ -1,6 +1,10 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { procParser } from './src/system/procParser';
 import { ramMonitor } from './src/services/ramMonitor';
-import { loadConfig } from './src/utils/config';
+import { ramForecaster } from './src/services/ramForecaster';
+import { loadConfig, getConfig } from './src/utils/config';
 import { dbClient } from './src/db/client';
 
 console.log('🧪 Testing RAM Monitoring...\n');
@@ -69,9 +73,99 @@ if (history.length > 0) {
   console.log('   Latest:', {
     percent: history[0].percent,
     used_mb: history[0].used_mb,
+    cached_mb: history[0].cached_mb,
+    buffers_mb: history[0].buffers_mb,
+    load_avg: history[0].load_avg,
+    uptime: history[0].uptime,
     timestamp: new Date(history[0].timestamp).toISOString()
   });
+  const stored = history[0].uptime > 0 && history[0].cached_mb > 0;
+  console.log(`${stored ? '✅' : '❌'} Cache, load and uptime are stored with each snapshot`);
 }
+const bucketed = ramMonitor.getBucketedHistory(Date.now() - 60 * 1000, Date.now(), 20 * 1000);
+const latestBucket = bucketed.points[bucketed.points.length - 1];
+console.log(`✅ ${bucketed.points.length} buckets of ${bucketed.step / 1000}s from ${bucketed.resolution} data`);
+if (latestBucket) console.log('   Latest bucket:', latestBucket.timestamp, latestBucket.ram_percent, latestBucket.load1);
+console.log();
+
+// Test 8: CPU utilization from /proc/stat deltas
+console.log('8. Testing CPU utilization...');
+const cpu = ramMonitor.getLastCpu();
+console.log(`✅ CPU: ${cpu!.total.percent}% busy over ${cpu!.interval_ms}ms ` +
+  `(user ${cpu!.total.user}%, system ${cpu!.total.system}%, iowait ${cpu!.total.iowait}%, steal ${cpu!.total.steal}%)`);
+console.log(`   Cores: ${cpu!.cores.map(c => `${c.cpu}=${c.percent}%`).join(', ')}`);
+const cpuHistory = ramMonitor.getCpuHistory(Date.now() - 60000, Date.now());
+console.log(`   Stored CPU samples (last minute): ${cpuHistory.length}`);
+console.log();
+
+// Test 9: Network throughput from /proc/net/dev deltas
+console.log('9. Testing network throughput...');
+const network = ramMonitor.getLastNetwork();
+console.log(`✅ ${network!.interfaces.length} interfaces over ${network!.interval_ms}ms`);
+network!.interfaces.forEach(i => {
+  console.log(`   ${i.interface}: rx ${i.rx_bytes_per_sec} B/s, tx ${i.tx_bytes_per_sec} B/s, errors ${i.rx_errors}/${i.tx_errors}`);
+});
+const netHistory = ramMonitor.getNetworkHistory(Date.now() - 60000, Date.now());
+console.log(`   Stored network rows (last minute, idle omitted): ${netHistory.length}`);
+console.log();
+
+// Test 10: Exhaustion forecast over a synthetic, steadily shrinking series
+console.log('10. Testing exhaustion forecast...');
+console.log(`✅ Live forecast: ${JSON.stringify(ramForecaster.forecast())}`);
+// Synthetic rows and the events they raise go to a throwaway database, not the
+// history that /ram/history, /ram/stats and the reports read
+const forecastDir = mkdtempSync(join(tmpdir(), 'tracker-forecast-'));
+dbClient.close();
+dbClient.init(join(forecastDir, 'activity.db'));
+const forecastAt = Date.now() - 7 * 24 * 60 * 60 * 1000;
+for (let minute = 10; minute >= 0; minute--) {
+  // 200MB/min consumed: 1000MB available and 500MB free swap at the end
+  dbClient.insertSystemStat({
+    ram_total_mb: 8000,
+    ram_used_mb: 7000 - minute * 150,
+    ram_available_mb: 1000 + minute * 150,
+    ram_percent: 87.5 - minute * 1.9,
+    swap_total_mb: 2000,
+    swap_used_mb: 1500 - minute * 50,
+    created_at: forecastAt - minute * 60000
+  });
+}
+const forecast = ramForecaster.check(forecastAt)!;
+console.log(`✅ Exhaustion in ${forecast.minutes_to_exhaustion} min (expected 7.5), ` +
+  `RAM in ${forecast.minutes_to_ram_exhaustion} min, swap in ${forecast.minutes_to_swap_exhaustion} min, ` +
+  `confidence ${forecast.confidence}, predicted: ${forecast.predicted}`);
+getConfig().forecast.horizonMinutes = 10;
+const predicted = ramForecaster.check(forecastAt)!;
+ramForecaster.check(forecastAt);
+const forecastEvents = dbClient.getEvents('ram_exhaustion_predicted', undefined, 5)
+  .filter(e => (e.created_at ?? 0) >= Date.now() - 60000);
+console.log(`✅ Within a 10 min horizon, predicted: ${predicted.predicted}, events: ${forecastEvents.length} (expected 1)`);
+dbClient.close();
+dbClient.init(getConfig().database.path);
+rmSync(forecastDir, { recursive: true });
+console.log();
+
+// Test 11: cgroup v2 limit, using a fake cgroup directory
+console.log('11. Testing cgroup v2 memory limits...');
+console.log(`✅ Live view: ${memInfo.view}${memInfo.cgroup ? ` (${memInfo.cgroup.path})` : ''}`);
+const cgroupDir = mkdtempSync(join(tmpdir(), 'tracker-cgroup-'));
+const MB = 1024 * 1024;
+writeFileSync(join(cgroupDir, 'memory.current'), `${900 * MB}\n`);
+writeFileSync(join(cgroupDir, 'memory.max'), `${1024 * MB}\n`);
+writeFileSync(join(cgroupDir, 'memory.stat'), `anon ${700 * MB}\nfile ${200 * MB}\nshmem ${10 * MB}\ninactive_file ${132 * MB}\n`);
+writeFileSync(join(cgroupDir, 'memory.events'), 'low 0\nhigh 0\nmax 12\noom 2\noom_kill 1\n');
+const cgroupConfig = getConfig().cgroup;
+const originalCgroupPath = cgroupConfig.path;
+cgroupConfig.path = cgroupDir;
+const limited = procParser.getMemoryInfo();
+console.log(`✅ View: ${limited.view} (expected cgroup), ${limited.percent}% of ${limited.total_mb}MB (expected 75% of 1024MB)`);
+console.log(`   Host: ${limited.host.percent}% of ${limited.host.total_mb}MB`);
+console.log(`   cgroup: working set ${limited.cgroup!.used_mb}MB, current ${limited.cgroup!.current_mb}MB, oom_kill ${limited.cgroup!.events.oom_kill}`);
+writeFileSync(join(cgroupDir, 'memory.max'), 'max\n');
+const unlimited = procParser.getMemoryInfo();
+console.log(`✅ Unlimited cgroup → view: ${unlimited.view} (expected host), cgroup limit: ${unlimited.cgroup!.limit_mb}`);
+cgroupConfig.path = originalCgroupPath;
+rmSync(cgroupDir, { recursive: true });
 console.log();
 
 // Cleanup